@@ -4,43 +4,68 @@
  * GOAL:
  * - O(1) get and put
  * - Evict least recently used item
+ * - Generic keys/values with a Map-like API
+ * - Optional per-entry TTL with an injectable clock
+ * - Optional weight budget (maxWeight + sizeOf) alongside entry capacity
+ * - Pluggable eviction policy (LRU by default; LFU, FIFO, 2Q, ARC)
+ * - Async read-through (getOrLoad) with single-flight loads,
+ *   negative caching and stale-while-revalidate
+ * - Observability: onEvict hook (with reason) and hit/miss stats
+ * - Snapshot / restore (optionally via a file) keeping recency order
+ * - Two-tier mode: LRUCache as L1 in front of a slower CacheStore (L2)
+ * - memoize() / @Memoized() helpers built on the cache
+ * - Runtime resize(), plus a NamespacedCache of per-tenant sub-caches
+ *   sharing one global capacity and recency list
  *
  * APPROACH:
- * - HashMap (key → node) for O(1) lookup
- * - Doubly Linked List for O(1) insert/remove and ordering
+ * - HashMap (key → entry) for O(1) lookup
+ * - EvictionPolicy decides the victim; every policy is built on
+ *   Doubly Linked Lists for O(1) insert/remove and ordering
  *
  * COMPLEXITY:
- * - get:  O(1)
- * - put:  O(1)
+ * - get / peek / has:   O(1)
+ * - put / delete:       O(1)
+ * - clear:              O(n), each entry is reported to onEvict
+ * - iteration:          O(n), policy retention order (MRU → LRU for LRU)
+ * - purgeExpired:       O(n)
+ * - snapshot / restore: O(n)
  * - space: O(capacity)
  *
+ * NOTE:
+ * - put evicts in a loop when weights are used, but each eviction
+ *   is O(1) and every node is evicted at most once (amortised O(1))
+ *
  * OOP PRINCIPLES:
  * - Encapsulation: DLL logic hidden inside class
- * - Composition: Cache uses Map + DLL
+ * - Composition: Cache uses Map + EvictionPolicy
+ * - Strategy: eviction rules are swappable without touching the cache
  * - SRP: Each class has a single responsibility
  ***********************************************************************/
 
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 
 /***********************************************************************
  * STEP 1: NODE
  *
  * RESPONSIBILITY:
- * - Represents a cache entry
+ * - Represents one element of a linked list
  *
  * SPEAK:
  * "Each node stores key-value pair and pointers
  *  for efficient reordering in O(1)."
  ***********************************************************************/
-class ListNode {
+class ListNode<K, V> {
   constructor(
-    public key: number,
-    public value: number,
-    public prev: ListNode | null = null,
-    public next: ListNode | null = null
+    public key: K,
+    public value: V,
+    public prev: ListNode<K, V> | null = null,
+    public next: ListNode<K, V> | null = null,
   ) {}
 }
 
-
 /***********************************************************************
  * STEP 2: DOUBLY LINKED LIST
  *
@@ -56,42 +81,61 @@ class ListNode {
  * "DLL maintains access order — most recently used
  *  items are near the head, least recently used near the tail."
  ***********************************************************************/
-class DoublyLinkedList {
-  private head: ListNode;
-  private tail: ListNode;
+class DoublyLinkedList<K, V> {
+  private head: ListNode<K, V>;
+  private tail: ListNode<K, V>;
+  private length = 0;
 
   constructor() {
-    // Dummy nodes simplify insert/remove logic
-    this.head = new ListNode(0, 0);
-    this.tail = new ListNode(0, 0);
+    // Dummy nodes simplify insert/remove logic.
+    // Their key/value are never read, so an empty placeholder is fine.
+    this.head = new ListNode<K, V>(undefined as K, undefined as V);
+    this.tail = new ListNode<K, V>(undefined as K, undefined as V);
 
     this.head.next = this.tail;
     this.tail.prev = this.head;
   }
 
+  get size(): number {
+    return this.length;
+  }
+
   /**
    * Add node right after head (mark as most recently used)
    */
-  addToFront(node: ListNode): void {
-    node.next = this.head.next;
-    node.prev = this.head;
+  addToFront(node: ListNode<K, V>): void {
+    this.insertAfter(this.head, node);
+  }
+
+  /**
+   * Insert node right after an existing node (or the head dummy)
+   */
+  insertAfter(anchor: ListNode<K, V>, node: ListNode<K, V>): void {
+    node.next = anchor.next;
+    node.prev = anchor;
 
-    this.head.next!.prev = node;
-    this.head.next = node;
+    anchor.next!.prev = node;
+    anchor.next = node;
+    this.length++;
   }
 
   /**
    * Remove a node from its current position
    */
-  remove(node: ListNode): void {
+  remove(node: ListNode<K, V>): void {
     node.prev!.next = node.next;
     node.next!.prev = node.prev;
+
+    // Detach so a stale node can't corrupt the list later
+    node.prev = null;
+    node.next = null;
+    this.length--;
   }
 
   /**
    * Move an existing node to front (mark as MRU)
    */
-  moveToFront(node: ListNode): void {
+  moveToFront(node: ListNode<K, V>): void {
     this.remove(node);
     this.addToFront(node);
   }
@@ -99,7 +143,7 @@ class DoublyLinkedList {
   /**
    * Remove least recently used node (from tail)
    */
-  removeLRU(): ListNode | null {
+  removeLRU(): ListNode<K, V> | null {
     // If list is empty (only dummy nodes)
     if (this.tail.prev === this.head) return null;
 
@@ -107,103 +151,2351 @@ class DoublyLinkedList {
     this.remove(lru);
     return lru;
   }
-}
 
+  /**
+   * First / last real node, or null when empty
+   */
+  peekMRU(): ListNode<K, V> | null {
+    return this.nextOf(this.head);
+  }
+
+  peekLRU(): ListNode<K, V> | null {
+    return this.prevOf(this.tail);
+  }
+
+  /**
+   * Neighbours of a node, hiding the dummies from callers
+   */
+  nextOf(node: ListNode<K, V>): ListNode<K, V> | null {
+    return node.next === this.tail ? null : node.next;
+  }
+
+  prevOf(node: ListNode<K, V>): ListNode<K, V> | null {
+    return node.prev === this.head ? null : node.prev;
+  }
+
+  /**
+   * Drop every node in O(1) by re-linking the dummies
+   */
+  clear(): void {
+    this.head.next = this.tail;
+    this.tail.prev = this.head;
+    this.length = 0;
+  }
+
+  /**
+   * Walk nodes from head (MRU) to tail (LRU)
+   */
+  *[Symbol.iterator](): IterableIterator<ListNode<K, V>> {
+    let node = this.head.next!;
+    while (node !== this.tail) {
+      // Read next first so callers may remove the yielded node
+      const next = node.next!;
+      yield node;
+      node = next;
+    }
+  }
+}
 
 /***********************************************************************
- * STEP 3: LRU CACHE (Orchestrator)
+ * STEP 3: KEYED LIST
  *
  * RESPONSIBILITY:
- * - Coordinate Map + DLL
- * - Ensure O(1) operations
+ * - DLL of keys + index (key → node) so any key moves in O(1)
+ * - Shared building block for every eviction policy
  *
  * SPEAK:
- * "We use a HashMap for fast lookup and a doubly linked list
- *  to maintain access order efficiently."
+ * "Policies think in keys, not nodes. This wrapper
+ *  hides the node bookkeeping."
  ***********************************************************************/
-class LRUCache {
-  private cache = new Map<number, ListNode>();
-  private dll = new DoublyLinkedList();
+class KeyedList<K> {
+  private nodes = new Map<K, ListNode<K, null>>();
+  private list = new DoublyLinkedList<K, null>();
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(key: K): boolean {
+    return this.nodes.has(key);
+  }
+
+  addToFront(key: K): void {
+    const node = new ListNode<K, null>(key, null);
+    this.nodes.set(key, node);
+    this.list.addToFront(node);
+  }
+
+  moveToFront(key: K): void {
+    const node = this.nodes.get(key);
+    if (node) this.list.moveToFront(node);
+  }
+
+  remove(key: K): boolean {
+    const node = this.nodes.get(key);
+    if (!node) return false;
 
-  constructor(private readonly capacity: number) {}
+    this.list.remove(node);
+    this.nodes.delete(key);
+    return true;
+  }
 
   /**
-   * GET operation
-   *
-   * SPEAK:
-   * "If key exists, move it to front (MRU) and return value.
-   *  Otherwise return -1."
+   * Remove the key closest to the tail, skipping `protect`.
+   * `protect` can only be the tail or its neighbour, so this is O(1).
    */
-  get(key: number): number {
-    if (!this.cache.has(key)) return -1;
+  removeLRU(protect?: K): K | undefined {
+    let node = this.list.peekLRU();
+    if (node && node.key === protect) node = this.list.prevOf(node);
+    if (!node) return undefined;
+
+    this.list.remove(node);
+    this.nodes.delete(node.key);
+    return node.key;
+  }
+
+  /**
+   * True when `protect` is the only key removeLRU could pick
+   */
+  onlyHolds(protect?: K): boolean {
+    return this.size === 0 || (this.size === 1 && this.has(protect as K));
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.list.clear();
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const node of this.list) yield node.key;
+  }
+}
+
+/***********************************************************************
+ * STEP 4: EVICTION POLICIES (Strategy Pattern)
+ *
+ * RESPONSIBILITY:
+ * - Track which keys are worth keeping
+ * - Pick the victim when the cache is over budget
+ *
+ * CONTRACT:
+ * - The cache records the write first, then calls evict(key) until it
+ *   fits again. `key` is the entry just written: a policy must never
+ *   return it (undefined when nothing else is left). resize() calls
+ *   evict() with no key, since nothing needs protecting.
+ * - onRemove is for deletes/expiry; the policy must forget the key
+ *   without treating it as an eviction.
+ * - resize is optional: policies sized from the capacity (2Q, ARC)
+ *   re-derive their limits. The cache calls it before evicting down.
+ *
+ * SPEAK:
+ * "The cache owns the data, the policy owns the order.
+ *  Swapping LRU for LFU is a constructor argument."
+ ***********************************************************************/
+interface EvictionPolicy<K> {
+  readonly name: string;
+  onInsert(key: K): void; // new key stored
+  onAccess(key: K): void; // get hit or overwrite
+  onRemove(key: K): void; // delete / expiry
+  evict(protect?: K): K | undefined; // choose victim and stop tracking it
+  resize?(capacity: number): void; // cache capacity changed
+  clear(): void;
+  keys(): IterableIterator<K>; // retention order, eviction candidates last
+}
+
+/**
+ * LRU: evict the key untouched for the longest time
+ */
+class LRUPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'LRU';
+  private list = new KeyedList<K>();
+
+  onInsert(key: K): void {
+    this.list.addToFront(key);
+  }
+
+  onAccess(key: K): void {
+    this.list.moveToFront(key);
+  }
+
+  onRemove(key: K): void {
+    this.list.remove(key);
+  }
+
+  evict(protect?: K): K | undefined {
+    return this.list.removeLRU(protect);
+  }
+
+  clear(): void {
+    this.list.clear();
+  }
+
+  keys(): IterableIterator<K> {
+    return this.list.keys();
+  }
+}
+
+/**
+ * FIFO: evict the oldest insert, reads don't matter
+ */
+class FIFOPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'FIFO';
+  private queue = new KeyedList<K>();
+
+  onInsert(key: K): void {
+    this.queue.addToFront(key);
+  }
+
+  onAccess(): void {
+    // Insertion order only — hits don't reorder
+  }
+
+  onRemove(key: K): void {
+    this.queue.remove(key);
+  }
+
+  evict(protect?: K): K | undefined {
+    // An overwrite leaves `protect` wherever it was, possibly at the tail
+    return this.queue.removeLRU(protect);
+  }
+
+  clear(): void {
+    this.queue.clear();
+  }
+
+  keys(): IterableIterator<K> {
+    return this.queue.keys();
+  }
+}
+
+/**
+ * LFU: evict the least frequently used key (LRU among ties)
+ *
+ * DESIGN:
+ * - Frequency list (DLL) of buckets, ascending → head is the minimum
+ * - Each bucket holds a DLL of keys with that frequency (MRU → LRU)
+ * - A hit moves the key to the neighbouring bucket: O(1), no scans
+ */
+class FrequencyBucket<K> {
+  readonly entries = new DoublyLinkedList<K, FrequencyBucket<K>>();
+  readonly node: ListNode<number, FrequencyBucket<K>>;
+
+  constructor(frequency: number) {
+    this.node = new ListNode(frequency, this);
+  }
+
+  get frequency(): number {
+    return this.node.key;
+  }
+}
+
+class LFUPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'LFU';
+  // key → node whose value is the bucket it currently lives in
+  private nodes = new Map<K, ListNode<K, FrequencyBucket<K>>>();
+  private buckets = new DoublyLinkedList<number, FrequencyBucket<K>>();
+
+  onInsert(key: K): void {
+    const first = this.buckets.peekMRU()?.value;
+    const bucket =
+      first && first.frequency === 1 ? first : this.createBucketAfter(null, 1);
+
+    const node = new ListNode(key, bucket);
+    this.nodes.set(key, node);
+    bucket.entries.addToFront(node);
+  }
+
+  onAccess(key: K): void {
+    const node = this.nodes.get(key);
+    if (!node) return;
+
+    const current = node.value;
+    const nextNode = this.buckets.nextOf(current.node);
+    const target =
+      nextNode && nextNode.key === current.frequency + 1
+        ? nextNode.value
+        : this.createBucketAfter(current, current.frequency + 1);
+
+    this.detach(node);
+    node.value = target;
+    target.entries.addToFront(node);
+  }
+
+  onRemove(key: K): void {
+    const node = this.nodes.get(key);
+    if (!node) return;
+
+    this.detach(node);
+    this.nodes.delete(key);
+  }
+
+  evict(protect?: K): K | undefined {
+    const lowest = this.buckets.peekMRU()?.value;
+    if (!lowest) return undefined;
+
+    // Least recently used key of the lowest frequency…
+    let victim = lowest.entries.peekLRU();
+    if (victim && victim.key === protect) {
+      // …unless that's the key just written: try its neighbour,
+      // then the next frequency bucket
+      victim =
+        lowest.entries.prevOf(victim) ??
+        this.buckets.nextOf(lowest.node)?.value.entries.peekLRU() ??
+        null;
+    }
+    if (!victim) return undefined;
+
+    this.onRemove(victim.key);
+    return victim.key;
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.buckets.clear();
+  }
+
+  *keys(): IterableIterator<K> {
+    // Highest frequency first, so the eviction candidates come last
+    const ordered = [...this.buckets].reverse();
+    for (const bucketNode of ordered) {
+      for (const node of bucketNode.value.entries) yield node.key;
+    }
+  }
+
+  private createBucketAfter(
+    previous: FrequencyBucket<K> | null,
+    frequency: number,
+  ): FrequencyBucket<K> {
+    const bucket = new FrequencyBucket<K>(frequency);
+    if (previous) this.buckets.insertAfter(previous.node, bucket.node);
+    else this.buckets.addToFront(bucket.node);
+    return bucket;
+  }
+
+  // Unlink a key from its bucket, dropping the bucket once empty
+  private detach(node: ListNode<K, FrequencyBucket<K>>): void {
+    const bucket = node.value;
+    bucket.entries.remove(node);
+    if (bucket.entries.size === 0) this.buckets.remove(bucket.node);
+  }
+}
+
+/**
+ * 2Q: scan-resistant LRU (Johnson & Shasha)
+ *
+ * DESIGN:
+ * - a1in:  FIFO of keys seen once (absorbs one-off scans)
+ * - a1out: ghost FIFO of keys recently evicted from a1in (keys only)
+ * - am:    LRU of keys seen again after leaving a1in — the "hot" set
+ */
+class TwoQueuePolicy<K> implements EvictionPolicy<K> {
+  readonly name = '2Q';
+  private a1in = new KeyedList<K>();
+  private a1out = new KeyedList<K>();
+  private am = new KeyedList<K>();
+  private kin = 1;
+  private kout = 1;
+
+  constructor(capacity: number) {
+    this.resize(capacity);
+  }
+
+  resize(capacity: number): void {
+    // Sizes recommended by the paper: 25% / 50% of the cache
+    this.kin = Math.max(1, Math.floor(capacity * 0.25));
+    this.kout = Math.max(1, Math.floor(capacity * 0.5));
+    while (this.a1out.size > this.kout) this.a1out.removeLRU();
+  }
+
+  onInsert(key: K): void {
+    // Seen recently enough to be remembered → it's hot
+    if (this.a1out.remove(key)) this.am.addToFront(key);
+    else this.a1in.addToFront(key);
+  }
+
+  onAccess(key: K): void {
+    // Hits inside a1in are correlated references and are ignored
+    if (this.am.has(key)) this.am.moveToFront(key);
+  }
+
+  onRemove(key: K): void {
+    if (!this.a1in.remove(key)) this.am.remove(key);
+  }
+
+  evict(protect?: K): K | undefined {
+    const preferIn = this.a1in.size > this.kin || this.am.onlyHolds(protect);
+
+    if (preferIn && !this.a1in.onlyHolds(protect)) {
+      const key = this.a1in.removeLRU(protect)!;
+      this.a1out.addToFront(key);
+      if (this.a1out.size > this.kout) this.a1out.removeLRU();
+      return key;
+    }
+    return this.am.removeLRU(protect);
+  }
+
+  clear(): void {
+    this.a1in.clear();
+    this.a1out.clear();
+    this.am.clear();
+  }
+
+  *keys(): IterableIterator<K> {
+    yield* this.am.keys();
+    yield* this.a1in.keys();
+  }
+}
+
+/**
+ * ARC: Adaptive Replacement Cache (Megiddo & Modha)
+ *
+ * DESIGN:
+ * - t1: keys seen once recently      b1: ghosts evicted from t1
+ * - t2: keys seen at least twice     b2: ghosts evicted from t2
+ * - p:  target size of t1; a ghost hit in b1 grows it, in b2 shrinks it,
+ *   so the cache tunes itself between recency and frequency
+ */
+class ARCPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'ARC';
+  private t1 = new KeyedList<K>();
+  private t2 = new KeyedList<K>();
+  private b1 = new KeyedList<K>();
+  private b2 = new KeyedList<K>();
+  private p = 0;
+  private lastHitWasB2 = false;
+
+  constructor(private capacity: number) {}
+
+  onInsert(key: K): void {
+    this.lastHitWasB2 = false;
+
+    if (this.b1.has(key)) {
+      this.p = Math.min(
+        this.capacity,
+        this.p + Math.max(this.b2.size / this.b1.size, 1),
+      );
+      this.b1.remove(key);
+      this.t2.addToFront(key);
+    } else if (this.b2.has(key)) {
+      this.p = Math.max(0, this.p - Math.max(this.b1.size / this.b2.size, 1));
+      this.b2.remove(key);
+      this.t2.addToFront(key);
+      this.lastHitWasB2 = true;
+    } else {
+      this.t1.addToFront(key);
+    }
+    this.trimGhosts();
+  }
 
-    const node = this.cache.get(key)!;
-    this.dll.moveToFront(node);
+  onAccess(key: K): void {
+    // Second touch promotes from "recent" to "frequent"
+    if (this.t1.remove(key)) this.t2.addToFront(key);
+    else this.t2.moveToFront(key);
+  }
 
-    return node.value;
+  onRemove(key: K): void {
+    if (!this.t1.remove(key)) this.t2.remove(key);
   }
 
   /**
-   * PUT operation
-   *
-   * SPEAK:
-   * "If key exists, update value and move to front.
-   *  If new key, insert and evict LRU if capacity exceeded."
+   * ARC's REPLACE: evict from t1 while it is above its target p
    */
-  put(key: number, value: number): void {
-    // Edge case: capacity = 0
-    if (this.capacity === 0) return;
+  evict(protect?: K): K | undefined {
+    const t1Size = this.t1.size;
+    const fromT1 =
+      (t1Size > 0 &&
+        (t1Size > this.p || (this.lastHitWasB2 && t1Size === this.p))) ||
+      this.t2.onlyHolds(protect);
 
-    if (this.cache.has(key)) {
-      const node = this.cache.get(key)!;
-      node.value = value;
-      this.dll.moveToFront(node);
-      return;
+    let key: K | undefined;
+    if (fromT1 && !this.t1.onlyHolds(protect)) {
+      key = this.t1.removeLRU(protect)!;
+      this.b1.addToFront(key);
+    } else {
+      key = this.t2.removeLRU(protect);
+      if (key !== undefined) this.b2.addToFront(key);
     }
+    this.trimGhosts();
+    return key;
+  }
+
+  // p can't exceed the new c; ghosts beyond the new directory go
+  resize(capacity: number): void {
+    this.capacity = capacity;
+    this.p = Math.min(this.p, capacity);
+    this.trimGhosts();
+  }
+
+  clear(): void {
+    for (const list of [this.t1, this.t2, this.b1, this.b2]) list.clear();
+    this.p = 0;
+  }
 
-    const newNode = new ListNode(key, value);
-    this.cache.set(key, newNode);
-    this.dll.addToFront(newNode);
+  *keys(): IterableIterator<K> {
+    yield* this.t2.keys();
+    yield* this.t1.keys();
+  }
 
-    // Evict LRU if capacity exceeded
-    if (this.cache.size > this.capacity) {
-      const lru = this.dll.removeLRU();
-      if (lru) this.cache.delete(lru.key);
+  // Keep |t1| + |b1| <= c and the whole directory <= 2c
+  private trimGhosts(): void {
+    const c = this.capacity;
+    while (this.b1.size > 0 && this.t1.size + this.b1.size > c) {
+      this.b1.removeLRU();
+    }
+    while (
+      this.b2.size > 0 &&
+      this.t1.size + this.t2.size + this.b1.size + this.b2.size > 2 * c
+    ) {
+      this.b2.removeLRU();
     }
   }
 }
 
+/***********************************************************************
+ * STEP 5: OPTIONS, EVENTS & CLOCK
+ *
+ * RESPONSIBILITY:
+ * - Describe cache-wide and per-put configuration
+ * - Describe what the cache reports (eviction events, stats)
+ * - Abstract "now" so expiry can be tested deterministically
+ *
+ * SPEAK:
+ * "Time is a dependency. Injecting the clock lets tests
+ *  advance time instead of sleeping."
+ ***********************************************************************/
+type Clock = () => number;
+
+type SizeOf<K, V> = (value: V, key: K) => number;
+
+enum EvictionReason {
+  CAPACITY = 'CAPACITY', // pushed out by count/weight limits
+  EXPIRED = 'EXPIRED', // TTL (plus stale window) ran out
+  DELETED = 'DELETED', // delete() or clear()
+  REPLACED = 'REPLACED', // put() overwrote it with a different value
+}
+
+type EvictionListener<K, V> = (
+  key: K,
+  value: V,
+  reason: EvictionReason,
+) => void;
+
+interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number; // CAPACITY removals only
+  expirations: number;
+  hitRatio: number; // hits / (hits + misses), 0 when unused
+  size: number;
+}
+
+interface LRUCacheOptions<K, V> {
+  defaultTtlMs?: number; // applied when put() gives no ttlMs
+  clock?: Clock; // defaults to Date.now
+  maxWeight?: number; // total weight budget, defaults to unlimited
+  sizeOf?: SizeOf<K, V>; // weight of one entry, defaults to 1
+  policy?: EvictionPolicy<K>; // defaults to a fresh LRUPolicy
+  negativeTtlMs?: number; // how long getOrLoad remembers a failure, 0 = never
+  staleWhileRevalidateMs?: number; // how long past expiry a value may be served
+  onEvict?: EvictionListener<K, V>; // called after an entry leaves the cache
+}
+
+interface PutOptions {
+  ttlMs?: number;
+}
+
+type Loader<K, V> = (key: K) => Promise<V>;
+
+/**
+ * Manual clock for tests: time only moves when told to
+ */
+class FakeClock {
+  constructor(private current: number = 0) {}
+
+  now = (): number => this.current;
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
 
 /***********************************************************************
- * STEP 4: DEMO / TEST CASES
+ * STEP 6: LRU CACHE (Orchestrator)
+ *
+ * RESPONSIBILITY:
+ * - Coordinate Map + EvictionPolicy
+ * - Ensure O(1) operations
+ * - Expose a Map-like API (has / delete / clear / size / iterators)
+ *
+ * SPEAK:
+ * "We use a HashMap for fast lookup and a doubly linked list
+ *  to maintain access order efficiently. The list lives in the
+ *  policy, so the same cache can run LFU or ARC instead."
  ***********************************************************************/
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number; // absolute time, Infinity = never
+  weight: number; // cost counted against maxWeight
+}
 
-// Basic test
-const cache = new LRUCache(2);
+interface FailedLoad {
+  error: unknown;
+  expiresAt: number;
+}
 
-cache.put(1, 10);
-cache.put(2, 20);
+class LRUCache<K, V> implements Iterable<[K, V]> {
+  private cache = new Map<K, CacheEntry<V>>();
+  private readonly policy: EvictionPolicy<K>;
+  private readonly defaultTtlMs: number | undefined;
+  private readonly clock: Clock;
+  private readonly maxWeight: number;
+  private readonly sizeOf: SizeOf<K, V> | undefined;
+  private readonly negativeTtlMs: number;
+  private readonly staleWhileRevalidateMs: number;
+  private readonly onEvict: EvictionListener<K, V> | undefined;
+  private currentWeight = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+  // Single-flight: at most one pending load per key
+  private inFlight = new Map<K, Promise<V>>();
+  // Negative cache: recent loader failures, replayed until they expire
+  private failures = new Map<K, FailedLoad>();
 
-console.log(cache.get(1)); // 10
+  private entryCapacity: number;
 
-cache.put(3, 30); // evicts key 2
+  constructor(capacity: number, options: LRUCacheOptions<K, V> = {}) {
+    this.entryCapacity = assertNonNegative('capacity', capacity);
+    if (options.defaultTtlMs !== undefined) {
+      assertValidTtl(options.defaultTtlMs);
+    }
+    if (options.maxWeight !== undefined && !(options.maxWeight >= 0)) {
+      throw new Error(
+        `maxWeight must be a non-negative number, got ${options.maxWeight}`,
+      );
+    }
+    this.defaultTtlMs = options.defaultTtlMs;
+    this.clock = options.clock ?? Date.now;
+    this.maxWeight = options.maxWeight ?? Infinity;
+    this.sizeOf = options.sizeOf;
+    this.policy = options.policy ?? new LRUPolicy<K>();
+    this.negativeTtlMs = assertNonNegative(
+      'negativeTtlMs',
+      options.negativeTtlMs ?? 0,
+    );
+    this.staleWhileRevalidateMs = assertNonNegative(
+      'staleWhileRevalidateMs',
+      options.staleWhileRevalidateMs ?? 0,
+    );
+    this.onEvict = options.onEvict;
+  }
 
-console.log(cache.get(2)); // -1
-console.log(cache.get(3)); // 30
+  /**
+   * Maximum number of entries (see resize)
+   */
+  get capacity(): number {
+    return this.entryCapacity;
+  }
 
+  /**
+   * Name of the eviction policy in use (e.g. "LRU", "ARC")
+   */
+  get policyName(): string {
+    return this.policy.name;
+  }
 
-// Edge case: capacity = 1
-const cache2 = new LRUCache(1);
+  /**
+   * Sum of the weights of all stored entries
+   */
+  get totalWeight(): number {
+    return this.currentWeight;
+  }
 
-cache2.put(1, 1);
-cache2.put(2, 2); // evicts 1
+  /**
+   * Number of entries currently stored.
+   * Expired entries count until they are read or purged.
+   */
+  get size(): number {
+    return this.cache.size;
+  }
 
-console.log(cache2.get(1)); // -1
-console.log(cache2.get(2)); // 2
+  /**
+   * GET operation
+   *
+   * SPEAK:
+   * "If key exists, tell the policy (LRU moves it to front)
+   *  and return value. Otherwise return undefined."
+   */
+  get(key: K): V | undefined {
+    const entry = this.getLiveEntry(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
 
+    this.hits++;
+    this.policy.onAccess(key);
 
-// Edge case: capacity = 0
-const cache3 = new LRUCache(0);
+    return entry.value;
+  }
 
-cache3.put(1, 1);
-console.log(cache3.get(1)); // -1
\ No newline at end of file
+  /**
+   * PEEK operation
+   *
+   * SPEAK:
+   * "Same as get, but the policy is not told."
+   */
+  peek(key: K): V | undefined {
+    return this.getLiveEntry(key)?.value;
+  }
+
+  /**
+   * HAS operation (does not promote)
+   */
+  has(key: K): boolean {
+    return this.getLiveEntry(key) !== null;
+  }
+
+  /**
+   * PUT operation
+   *
+   * SPEAK:
+   * "If key exists, update value and record an access.
+   *  If new key, insert and evict until within capacity.
+   *  An item heavier than the whole budget is rejected up front."
+   */
+  put(key: K, value: V, options: PutOptions = {}): void {
+    // An explicit write wins over any load still in flight
+    this.inFlight.delete(key);
+    this.failures.delete(key);
+
+    // Edge case: capacity = 0
+    if (this.entryCapacity === 0) return;
+
+    this.write(key, value, this.computeExpiry(options.ttlMs));
+  }
+
+  /**
+   * RESIZE operation
+   *
+   * SPEAK:
+   * "Growing is just a new number. Shrinking evicts through
+   *  the policy — reported as CAPACITY — until we fit."
+   */
+  resize(newCapacity: number): void {
+    this.entryCapacity = assertNonNegative('capacity', newCapacity);
+    this.policy.resize?.(newCapacity);
+    this.evictIfNeeded();
+  }
+
+  /**
+   * DELETE operation
+   *
+   * SPEAK:
+   * "Drop it from the map and the policy.
+   *  Returns whether anything was removed, like Map.delete."
+   */
+  delete(key: K): boolean {
+    this.inFlight.delete(key);
+    this.failures.delete(key);
+
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+
+    this.removeEntry(key, entry, EvictionReason.DELETED);
+    return true;
+  }
+
+  /**
+   * Sweep every expired entry, wherever it sits in the policy's order.
+   * Returns how many entries were removed.
+   *
+   * SPEAK:
+   * "Lazy expiry keeps reads O(1); this sweep is the
+   *  bulk cleanup you run on a timer."
+   */
+  purgeExpired(): number {
+    const now = this.clock();
+    let removed = 0;
+
+    for (const [key, entry] of this.cache) {
+      if (this.isDead(entry, now)) {
+        this.removeEntry(key, entry, EvictionReason.EXPIRED);
+        removed++;
+      }
+    }
+    for (const [key, failure] of this.failures) {
+      if (failure.expiresAt <= now) this.failures.delete(key);
+    }
+    return removed;
+  }
+
+  /**
+   * GET-OR-LOAD operation (async read-through)
+   *
+   * SPEAK:
+   * "Fresh hit → return it. Miss → call the loader once,
+   *  no matter how many callers are waiting, then cache it.
+   *  Stale hit → serve the old value now, refresh in the background.
+   *  Failures are not cached unless negativeTtlMs says so."
+   */
+  getOrLoad(
+    key: K,
+    loader: Loader<K, V>,
+    options: PutOptions = {},
+  ): Promise<V> {
+    const now = this.clock();
+    const entry = this.cache.get(key);
+
+    if (entry && !this.isDead(entry, now)) {
+      this.hits++;
+      this.policy.onAccess(key);
+
+      if (entry.expiresAt <= now) {
+        // Stale-while-revalidate: errors are kept off the caller's path
+        this.load(key, loader, options).catch(() => undefined);
+      }
+      return Promise.resolve(entry.value);
+    }
+    if (entry) this.removeEntry(key, entry, EvictionReason.EXPIRED);
+    this.misses++;
+
+    const failure = this.failures.get(key);
+    if (failure) {
+      if (failure.expiresAt > now) return Promise.reject(failure.error);
+      this.failures.delete(key);
+    }
+
+    return this.load(key, loader, options);
+  }
+
+  /**
+   * Remove every entry (each one is reported as DELETED)
+   */
+  clear(): void {
+    const removed = this.onEvict ? [...this.cache] : [];
+
+    this.cache.clear();
+    this.policy.clear();
+    this.inFlight.clear();
+    this.failures.clear();
+    this.currentWeight = 0;
+
+    for (const [key, entry] of removed) {
+      this.onEvict!(key, entry.value, EvictionReason.DELETED);
+    }
+  }
+
+  /**
+   * Point-in-time counters; a copy, so it won't change under you
+   *
+   * SPEAK:
+   * "Only get and getOrLoad count as lookups — peek and has
+   *  are introspection and must not skew the hit ratio."
+   */
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRatio: lookups === 0 ? 0 : this.hits / lookups,
+      size: this.cache.size,
+    };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  /**
+   * Export entries in retention order (MRU → LRU for LRU).
+   * Entries past their stale window are left out.
+   *
+   * SPEAK:
+   * "Order is the whole point: restoring must give back
+   *  the same recency list, not just the same key set."
+   */
+  snapshot(serializer: SnapshotSerializer<K, V> = {}): CacheSnapshot {
+    const now = this.clock();
+    const entries: SnapshotEntry[] = [];
+
+    for (const key of this.policy.keys()) {
+      const entry = this.cache.get(key)!;
+      if (this.isDead(entry, now)) continue;
+
+      entries.push({
+        key: serializer.key ? serializer.key.serialize(key) : key,
+        value: serializer.value
+          ? serializer.value.serialize(entry.value)
+          : entry.value,
+        // Infinity is not valid JSON, so "never expires" is just omitted
+        ...(entry.expiresAt !== Infinity && { expiresAt: entry.expiresAt }),
+      });
+    }
+
+    return { version: SNAPSHOT_VERSION, entries };
+  }
+
+  /**
+   * Rebuild a cache from snapshot(): entries are replayed LRU → MRU,
+   * so the last one written ends up at the head, as it was.
+   * Expiry is absolute, so a long restart may expire some entries.
+   */
+  static fromSnapshot<K, V>(
+    snapshot: CacheSnapshot,
+    capacity: number,
+    options: LRUCacheOptions<K, V> = {},
+    serializer: SnapshotSerializer<K, V> = {},
+  ): LRUCache<K, V> {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version}`);
+    }
+
+    const cache = new LRUCache<K, V>(capacity, options);
+    if (capacity === 0) return cache;
+
+    const now = cache.clock();
+    for (let i = snapshot.entries.length - 1; i >= 0; i--) {
+      const raw = snapshot.entries[i];
+      const expiresAt = raw.expiresAt ?? Infinity;
+      if (expiresAt + cache.staleWhileRevalidateMs <= now) continue;
+
+      const key = serializer.key
+        ? serializer.key.deserialize(raw.key)
+        : (raw.key as K);
+      const value = serializer.value
+        ? serializer.value.deserialize(raw.value)
+        : (raw.value as V);
+
+      cache.write(key, value, expiresAt);
+    }
+    return cache;
+  }
+
+  /**
+   * Iterators follow the policy's retention order (MRU → LRU for LRU)
+   * and never change it
+   */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.liveEntries()) yield key;
+  }
+
+  *values(): IterableIterator<V> {
+    for (const [, entry] of this.liveEntries()) yield entry.value;
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    for (const [key, entry] of this.liveEntries()) yield [key, entry.value];
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  forEach(callback: (value: V, key: K, cache: this) => void): void {
+    for (const [key, value] of this.entries()) callback(value, key, this);
+  }
+
+  // Look up an entry, lazily dropping it if it has expired.
+  // Stale entries are a miss here but are kept for getOrLoad.
+  private getLiveEntry(key: K): CacheEntry<V> | null {
+    const entry = this.cache.get(key);
+    if (!entry) return null;
+
+    const now = this.clock();
+    if (entry.expiresAt > now) return entry;
+
+    if (this.isDead(entry, now)) {
+      this.removeEntry(key, entry, EvictionReason.EXPIRED);
+    }
+    return null;
+  }
+
+  // Past expiry and past the stale-while-revalidate window
+  private isDead(entry: CacheEntry<V>, now: number): boolean {
+    return entry.expiresAt + this.staleWhileRevalidateMs <= now;
+  }
+
+  // Run the loader once per key; concurrent callers share the promise.
+  // A result is only stored if nothing (put/delete/clear) superseded it.
+  private load(key: K, loader: Loader<K, V>, options: PutOptions): Promise<V> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const isCurrent = (): boolean => this.inFlight.get(key) === promise;
+
+    const promise: Promise<V> = Promise.resolve()
+      .then(() => loader(key))
+      .then(
+        (value) => {
+          if (isCurrent()) this.put(key, value, options);
+          return value;
+        },
+        (error: unknown) => {
+          if (isCurrent()) {
+            this.inFlight.delete(key);
+            if (this.negativeTtlMs > 0) {
+              this.failures.set(key, {
+                error,
+                expiresAt: this.clock() + this.negativeTtlMs,
+              });
+            }
+          }
+          throw error;
+        },
+      );
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  // Skip (but don't remove) expired entries so iteration stays read-only
+  private *liveEntries(): IterableIterator<[K, CacheEntry<V>]> {
+    const now = this.clock();
+    for (const key of this.policy.keys()) {
+      const entry = this.cache.get(key)!;
+      if (entry.expiresAt > now) yield [key, entry];
+    }
+  }
+
+  private removeEntry(
+    key: K,
+    entry: CacheEntry<V>,
+    reason: EvictionReason,
+  ): void {
+    this.policy.onRemove(key);
+    this.forget(key, entry, reason);
+  }
+
+  // Map + weight bookkeeping for a key the policy no longer tracks.
+  // The listener runs last so it sees the cache already updated.
+  private forget(key: K, entry: CacheEntry<V>, reason: EvictionReason): void {
+    this.cache.delete(key);
+    this.currentWeight -= entry.weight;
+
+    if (reason === EvictionReason.CAPACITY) this.evictions++;
+    if (reason === EvictionReason.EXPIRED) this.expirations++;
+    this.onEvict?.(key, entry.value, reason);
+  }
+
+  // Shared by put() and fromSnapshot(): store with an absolute expiry
+  private write(key: K, value: V, expiresAt: number): void {
+    const weight = this.computeWeight(key, value);
+
+    const existing = this.cache.get(key);
+    if (existing) {
+      const previous = existing.value;
+
+      // Re-weigh: the new value may be bigger or smaller than the old one
+      this.currentWeight += weight - existing.weight;
+      existing.value = value;
+      existing.weight = weight;
+      existing.expiresAt = expiresAt;
+      this.policy.onAccess(key);
+
+      if (previous !== value) {
+        this.onEvict?.(key, previous, EvictionReason.REPLACED);
+      }
+    } else {
+      this.cache.set(key, { value, expiresAt, weight });
+      this.policy.onInsert(key);
+      this.currentWeight += weight;
+    }
+
+    this.evictIfNeeded(key);
+  }
+
+  // Ask the policy for victims until both count and weight limits hold.
+  // The just-written key is protected (put already rejected anything
+  // heavier than maxWeight, so it always fits on its own).
+  private evictIfNeeded(written?: K): void {
+    while (
+      this.cache.size > this.entryCapacity ||
+      this.currentWeight > this.maxWeight
+    ) {
+      const victim = this.policy.evict(written);
+      if (victim === undefined) break;
+      this.forget(victim, this.cache.get(victim)!, EvictionReason.CAPACITY);
+    }
+  }
+
+  private computeWeight(key: K, value: V): number {
+    const weight = this.sizeOf ? this.sizeOf(value, key) : 1;
+
+    if (!(weight >= 0) || weight === Infinity) {
+      throw new Error(`sizeOf must return a finite number >= 0, got ${weight}`);
+    }
+    if (weight > this.maxWeight) {
+      throw new Error(
+        `Item weight ${weight} exceeds maxWeight ${this.maxWeight}`,
+      );
+    }
+    return weight;
+  }
+
+  private computeExpiry(ttlMs: number | undefined): number {
+    const effectiveTtl = ttlMs ?? this.defaultTtlMs;
+    if (effectiveTtl === undefined) return Infinity;
+
+    assertValidTtl(effectiveTtl);
+    return this.clock() + effectiveTtl;
+  }
+}
+
+function assertValidTtl(ttlMs: number): void {
+  if (!(ttlMs > 0)) {
+    throw new Error(`ttlMs must be a positive number, got ${ttlMs}`);
+  }
+}
+
+function assertNonNegative(name: string, value: number): number {
+  if (!(value >= 0)) {
+    throw new Error(`${name} must be a non-negative number, got ${value}`);
+  }
+  return value;
+}
+
+/***********************************************************************
+ * STEP 7: SNAPSHOT (Persistence)
+ *
+ * RESPONSIBILITY:
+ * - Plain, JSON-friendly shape for a cache's contents
+ * - Pluggable key/value codecs for anything JSON can't hold
+ * - Save / load helpers for a local file
+ *
+ * SPEAK:
+ * "The cache knows its order, the codec knows the types,
+ *  and the file helpers only move bytes."
+ ***********************************************************************/
+const SNAPSHOT_VERSION = 1;
+
+interface SnapshotEntry {
+  key: unknown;
+  value: unknown;
+  expiresAt?: number; // absolute time, omitted = never
+}
+
+interface CacheSnapshot {
+  version: number;
+  entries: SnapshotEntry[]; // MRU → LRU
+}
+
+interface Codec<T> {
+  serialize(item: T): unknown;
+  deserialize(raw: unknown): T;
+}
+
+interface SnapshotSerializer<K, V> {
+  key?: Codec<K>; // defaults to storing the key as-is
+  value?: Codec<V>; // defaults to storing the value as-is
+}
+
+/**
+ * Write via a temp file + rename so a crash never leaves half a snapshot
+ */
+async function saveSnapshotToFile<K, V>(
+  cache: LRUCache<K, V>,
+  filePath: string,
+  serializer: SnapshotSerializer<K, V> = {},
+): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  const json = JSON.stringify(cache.snapshot(serializer));
+
+  await fs.writeFile(tempPath, json, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+async function loadSnapshotFromFile<K, V>(
+  filePath: string,
+  capacity: number,
+  options: LRUCacheOptions<K, V> = {},
+  serializer: SnapshotSerializer<K, V> = {},
+): Promise<LRUCache<K, V>> {
+  const json = await fs.readFile(filePath, 'utf8');
+  const snapshot = JSON.parse(json) as CacheSnapshot;
+
+  return LRUCache.fromSnapshot(snapshot, capacity, options, serializer);
+}
+
+/***********************************************************************
+ * STEP 8: L2 STORE (Slow Tier)
+ *
+ * RESPONSIBILITY:
+ * - Minimal async key/value contract for whatever sits behind L1
+ * - A filesystem-backed implementation: one JSON file per key
+ *
+ * SPEAK:
+ * "The two-tier cache only needs get/set/delete/clear,
+ *  so disk, Redis or S3 can all plug in behind the same interface."
+ ***********************************************************************/
+interface CacheStore<K, V> {
+  get(key: K): Promise<V | undefined>;
+  set(key: K, value: V): Promise<void>;
+  delete(key: K): Promise<boolean>;
+  clear(): Promise<void>;
+}
+
+interface FileSystemStoreOptions<K, V> {
+  keyToString?: (key: K) => string; // defaults to String(key)
+  value?: Codec<V>; // defaults to storing the value as-is (JSON)
+}
+
+class FileSystemStore<K, V> implements CacheStore<K, V> {
+  private readonly keyToString: (key: K) => string;
+  private readonly codec: Codec<V> | undefined;
+
+  constructor(
+    private readonly directory: string,
+    options: FileSystemStoreOptions<K, V> = {},
+  ) {
+    this.keyToString = options.keyToString ?? String;
+    this.codec = options.value;
+  }
+
+  async get(key: K): Promise<V | undefined> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.pathFor(key), 'utf8'));
+      return this.codec ? this.codec.deserialize(raw) : (raw as V);
+    } catch (err) {
+      if (isFileNotFound(err)) return undefined;
+      throw err;
+    }
+  }
+
+  async set(key: K, value: V): Promise<void> {
+    const filePath = this.pathFor(key);
+    // Unique temp name: concurrent writers of one key must not collide
+    const tempPath = `${filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+    const raw = this.codec ? this.codec.serialize(value) : value;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(raw), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: K): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(key));
+      return true;
+    } catch (err) {
+      if (isFileNotFound(err)) return false;
+      throw err;
+    }
+  }
+
+  /**
+   * Removes only this store's entry files, never the directory itself
+   */
+  async clear(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (err) {
+      if (isFileNotFound(err)) return;
+      throw err;
+    }
+
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(ENTRY_FILE_SUFFIX))
+        .map((name) => fs.unlink(path.join(this.directory, name))),
+    );
+  }
+
+  // Hash the key so any string is a safe, fixed-length file name
+  private pathFor(key: K): string {
+    const digest = createHash('sha256')
+      .update(this.keyToString(key))
+      .digest('hex');
+    return path.join(this.directory, `${digest}${ENTRY_FILE_SUFFIX}`);
+  }
+}
+
+const ENTRY_FILE_SUFFIX = '.entry.json';
+let tempFileCounter = 0;
+
+function isFileNotFound(err: unknown): boolean {
+  return (err as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/***********************************************************************
+ * STEP 9: TWO-TIER CACHE (L1 memory + L2 store)
+ *
+ * RESPONSIBILITY:
+ * - L1 hit → answer from memory
+ * - L1 miss → check L2, promote the entry into L1 on a hit
+ * - L1 capacity eviction → demote the entry to L2
+ * - Writes: WRITE_THROUGH (L2 updated before set() resolves) or
+ *   WRITE_BEHIND (buffered, flushed to L2 in batches)
+ * - delete / clear reach both tiers
+ *
+ * DESIGN:
+ * - Write-behind keeps a pending map (key → value or tombstone).
+ *   Reads consult it before L2, so buffered writes are never "lost".
+ * - An entry is only dropped from pending once L2 confirmed that
+ *   exact write, so a newer write during a flush is never discarded.
+ *
+ * SPEAK:
+ * "L1 is an LRUCache; the tiering is just its onEvict hook
+ *  plus a read-through on miss."
+ ***********************************************************************/
+enum WriteMode {
+  WRITE_THROUGH = 'WRITE_THROUGH',
+  WRITE_BEHIND = 'WRITE_BEHIND',
+}
+
+interface TwoTierCacheOptions<K, V> {
+  mode?: WriteMode; // defaults to WRITE_THROUGH
+  batchSize?: number; // write-behind: flush once this many are pending
+  flushIntervalMs?: number; // write-behind: flush at least this often
+  l1?: LRUCacheOptions<K, V>; // its onEvict still fires, after demotion
+}
+
+const TOMBSTONE = Symbol('deleted');
+
+class TwoTierCache<K, V> {
+  private readonly l1: LRUCache<K, V>;
+  private readonly mode: WriteMode;
+  private readonly batchSize: number;
+  private readonly flushIntervalMs: number;
+  private pending = new Map<K, V | typeof TOMBSTONE>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    l1Capacity: number,
+    private readonly l2: CacheStore<K, V>,
+    options: TwoTierCacheOptions<K, V> = {},
+  ) {
+    this.mode = options.mode ?? WriteMode.WRITE_THROUGH;
+    this.batchSize = options.batchSize ?? 50;
+    this.flushIntervalMs = options.flushIntervalMs ?? 1000;
+
+    const userOnEvict = options.l1?.onEvict;
+    this.l1 = new LRUCache<K, V>(l1Capacity, {
+      ...options.l1,
+      onEvict: (key, value, reason) => {
+        if (reason === EvictionReason.CAPACITY) this.demote(key, value);
+        userOnEvict?.(key, value, reason);
+      },
+    });
+  }
+
+  /**
+   * Writes not yet confirmed by L2 (always 0 in write-through)
+   */
+  get pendingWrites(): number {
+    return this.pending.size;
+  }
+
+  async get(key: K): Promise<V | undefined> {
+    const hit = this.l1.get(key);
+    if (hit !== undefined) return hit;
+
+    const buffered = this.pending.get(key);
+    if (buffered === TOMBSTONE) return undefined;
+    if (buffered !== undefined) {
+      this.l1.put(key, buffered);
+      return buffered;
+    }
+
+    const value = await this.l2.get(key);
+    // Don't let a slow L2 read clobber a write that raced ahead of it
+    if (value !== undefined && !this.l1.has(key) && !this.pending.has(key)) {
+      this.l1.put(key, value);
+    }
+    return value;
+  }
+
+  async set(key: K, value: V): Promise<void> {
+    if (this.mode === WriteMode.WRITE_THROUGH) {
+      // L2 first: a rejected write must not leave L1 serving the value
+      await this.l2.set(key, value);
+      this.l1.put(key, value);
+    } else {
+      this.l1.put(key, value);
+      this.enqueue(key, value);
+    }
+  }
+
+  async delete(key: K): Promise<boolean> {
+    if (this.mode === WriteMode.WRITE_THROUGH) {
+      // L2 first: a get() in the meantime must not promote the old value
+      const inL2 = await this.l2.delete(key);
+      const inL1 = this.l1.delete(key);
+      return inL1 || inL2;
+    }
+
+    const inL1 = this.l1.delete(key);
+    const wasBuffered =
+      this.pending.has(key) && this.pending.get(key) !== TOMBSTONE;
+    this.enqueue(key, TOMBSTONE);
+    return inL1 || wasBuffered;
+  }
+
+  /**
+   * Drops pending writes too: they would only be wiped by L2.clear().
+   * Runs after any batch in flight, so its writes can't land afterwards.
+   */
+  async clear(): Promise<void> {
+    this.l1.clear();
+    this.pending.clear();
+    this.cancelFlushTimer();
+
+    const run = this.flushChain.then(() => this.l2.clear());
+    this.flushChain = run.catch(() => undefined);
+    await run;
+  }
+
+  /**
+   * Push every pending write to L2 as one batch.
+   * Batches never overlap: a flush requested mid-flight runs after it.
+   */
+  flush(): Promise<void> {
+    const run = this.flushChain.then(() => this.flushBatch());
+    this.flushChain = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Flush and stop the timer — call before the process exits
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.cancelFlushTimer();
+  }
+
+  private async flushBatch(): Promise<void> {
+    this.cancelFlushTimer();
+    const batch = [...this.pending];
+
+    await Promise.all(
+      batch.map(async ([key, value]) => {
+        if (value === TOMBSTONE) await this.l2.delete(key);
+        else await this.l2.set(key, value);
+
+        // Superseded by a newer write meanwhile? Keep that one queued.
+        if (this.pending.get(key) === value) this.pending.delete(key);
+      }),
+    );
+
+    if (this.pending.size > 0) this.scheduleFlush();
+  }
+
+  // Write-through: L2 already holds every L1 entry, nothing to do.
+  // Write-behind: make sure the evicted value is queued for L2.
+  private demote(key: K, value: V): void {
+    if (this.mode === WriteMode.WRITE_BEHIND && !this.pending.has(key)) {
+      this.enqueue(key, value);
+    }
+  }
+
+  private enqueue(key: K, value: V | typeof TOMBSTONE): void {
+    // Re-insert so the map keeps write order for the next batch
+    this.pending.delete(key);
+    this.pending.set(key, value);
+
+    if (this.pending.size >= this.batchSize) {
+      // Background flush: failures stay pending and are retried later
+      this.flush().catch(() => this.scheduleFlush());
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch(() => this.scheduleFlush());
+    }, this.flushIntervalMs);
+  }
+
+  private cancelFlushTimer(): void {
+    if (!this.flushTimer) return;
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+  }
+}
+
+/***********************************************************************
+ * STEP 10: MEMOIZE (Function Cache)
+ *
+ * RESPONSIBILITY:
+ * - Wrap a function so repeat calls come from an LRUCache
+ * - Derive keys from primitive arguments by default
+ * - Cache promises for async functions, but never a rejection
+ * - Let callers reach the cache: .cache / .invalidate / .clear
+ *
+ * SPEAK:
+ * "Memoize is the most common use of an LRU cache,
+ *  so the key building lives here instead of in every caller."
+ ***********************************************************************/
+interface MemoizeOptions<Args extends unknown[]> {
+  capacity?: number; // defaults to 100
+  keyFn?: (...args: Args) => unknown; // required for object arguments
+  ttlMs?: number;
+}
+
+interface MemoizedFunction<Args extends unknown[], R> {
+  (...args: Args): R;
+  readonly cache: LRUCache<unknown, R>;
+  invalidate(...args: Args): boolean;
+  clear(): void;
+}
+
+/**
+ * Default key: type-tagged primitives, so 1 and '1' never collide
+ */
+function primitiveArgsKey(...args: unknown[]): string {
+  return JSON.stringify(
+    args.map((arg) => {
+      if (
+        arg !== null &&
+        (typeof arg === 'object' || typeof arg === 'function')
+      ) {
+        throw new Error('memoize: pass a keyFn to memoize object arguments');
+      }
+      return [typeof arg, String(arg)];
+    }),
+  );
+}
+
+function memoize<Args extends unknown[], R>(
+  fn: (...args: Args) => R,
+  options: MemoizeOptions<Args> = {},
+): MemoizedFunction<Args, R> {
+  const cache = new LRUCache<unknown, R>(options.capacity ?? 100, {
+    defaultTtlMs: options.ttlMs,
+  });
+  const keyFn: (...args: Args) => unknown = options.keyFn ?? primitiveArgsKey;
+
+  const memoized = function (this: unknown, ...args: Args): R {
+    const key = keyFn(...args);
+
+    const cached = cache.get(key);
+    if (cached !== undefined || cache.has(key)) return cached as R;
+
+    const result = fn.apply(this, args);
+    cache.put(key, result);
+
+    // Async: forget a rejected promise so the next call retries
+    if (result instanceof Promise) {
+      result.catch(() => {
+        if (cache.peek(key) === result) cache.delete(key);
+      });
+    }
+    return result;
+  };
+
+  return Object.assign(memoized, {
+    cache,
+    invalidate: (...args: Args): boolean => cache.delete(keyFn(...args)),
+    clear: (): void => cache.clear(),
+  });
+}
+
+/**
+ * Method decorator form. Each instance gets its own cache,
+ * held in a WeakMap so instances can still be garbage-collected.
+ *
+ *   class Api { @Memoized({ ttlMs: 1000 }) fetchUser(id: string) {…} }
+ */
+function Memoized<Args extends unknown[]>(options: MemoizeOptions<Args> = {}) {
+  return function <This extends object, R>(
+    method: (this: This, ...args: Args) => R,
+    context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: Args) => R
+    >,
+  ): (this: This, ...args: Args) => R {
+    if (context.static) {
+      throw new Error('@Memoized supports instance methods only');
+    }
+    const perInstance = new WeakMap<This, MemoizedFunction<Args, R>>();
+
+    return function (this: This, ...args: Args): R {
+      let memoized = perInstance.get(this);
+      if (!memoized) {
+        memoized = memoize(method.bind(this), options);
+        perInstance.set(this, memoized);
+      }
+      return memoized(...args);
+    };
+  };
+}
+
+/***********************************************************************
+ * STEP 11: NAMESPACED CACHE (Shared Budget, Per-Tenant Limits)
+ *
+ * RESPONSIBILITY:
+ * - Many logical sub-caches (e.g. one per tenant) in one memory budget
+ * - One global capacity + global recency list across all namespaces
+ * - An optional per-namespace limit so one tenant can't take it all
+ * - Clear a whole namespace in O(size of that namespace)
+ *
+ * DESIGN:
+ * - Every entry sits in TWO lists: the global DLL (who is LRU overall)
+ *   and its namespace's DLL (who is LRU inside that tenant)
+ * - Each list has its own ListNode; both point back at the entry
+ * - Empty namespaces are dropped, so memory tracks live entries only
+ *
+ * SPEAK:
+ * "Over the global limit → evict the global tail.
+ *  Over a tenant limit → evict that tenant's tail.
+ *  Both are O(1) because each list owns its own node."
+ ***********************************************************************/
+class NamespacedEntry<N, K, V> {
+  readonly globalNode: ListNode<K, NamespacedEntry<N, K, V>>;
+  readonly localNode: ListNode<K, NamespacedEntry<N, K, V>>;
+
+  constructor(
+    readonly namespace: N,
+    key: K,
+    public value: V,
+  ) {
+    this.globalNode = new ListNode(key, this);
+    this.localNode = new ListNode(key, this);
+  }
+}
+
+class NamespaceSpace<N, K, V> {
+  readonly entries = new Map<K, NamespacedEntry<N, K, V>>();
+  readonly recency = new DoublyLinkedList<K, NamespacedEntry<N, K, V>>();
+}
+
+interface NamespacedCacheOptions {
+  defaultNamespaceLimit?: number; // defaults to unlimited
+}
+
+class NamespacedCache<N, K, V> {
+  private spaces = new Map<N, NamespaceSpace<N, K, V>>();
+  private limits = new Map<N, number>();
+  private globalRecency = new DoublyLinkedList<K, NamespacedEntry<N, K, V>>();
+  private readonly defaultNamespaceLimit: number;
+
+  constructor(
+    private globalCapacity: number,
+    options: NamespacedCacheOptions = {},
+  ) {
+    assertNonNegative('globalCapacity', globalCapacity);
+    this.defaultNamespaceLimit = assertNonNegative(
+      'defaultNamespaceLimit',
+      options.defaultNamespaceLimit ?? Infinity,
+    );
+  }
+
+  /**
+   * Entries across all namespaces
+   */
+  get size(): number {
+    return this.globalRecency.size;
+  }
+
+  /**
+   * A handle bound to one namespace, e.g. cache.namespace('tenant-a')
+   */
+  namespace(name: N): CacheNamespace<N, K, V> {
+    return new CacheNamespace(this, name);
+  }
+
+  namespaceSize(name: N): number {
+    return this.spaces.get(name)?.entries.size ?? 0;
+  }
+
+  /**
+   * Change one namespace's limit; shrinking evicts its LRU entries
+   */
+  setNamespaceLimit(name: N, limit: number): void {
+    this.limits.set(name, assertNonNegative('limit', limit));
+
+    const space = this.spaces.get(name);
+    while (space && space.entries.size > limit) {
+      this.removeEntry(space.recency.peekLRU()!.value);
+    }
+  }
+
+  get(name: N, key: K): V | undefined {
+    const entry = this.spaces.get(name)?.entries.get(key);
+    if (!entry) return undefined;
+
+    this.touch(entry);
+    return entry.value;
+  }
+
+  has(name: N, key: K): boolean {
+    return this.spaces.get(name)?.entries.has(key) ?? false;
+  }
+
+  put(name: N, key: K, value: V): void {
+    const limit = this.limitOf(name);
+    if (limit === 0 || this.globalCapacity === 0) return;
+
+    const existing = this.spaces.get(name)?.entries.get(key);
+    if (existing) {
+      existing.value = value;
+      this.touch(existing);
+      return;
+    }
+
+    const space = this.spaceFor(name);
+    const entry = new NamespacedEntry(name, key, value);
+
+    space.entries.set(key, entry);
+    space.recency.addToFront(entry.localNode);
+    this.globalRecency.addToFront(entry.globalNode);
+
+    // Tenant limit first, then the shared budget
+    if (space.entries.size > limit) {
+      this.removeEntry(space.recency.peekLRU()!.value);
+    }
+    this.evictGlobal();
+  }
+
+  delete(name: N, key: K): boolean {
+    const entry = this.spaces.get(name)?.entries.get(key);
+    if (!entry) return false;
+
+    this.removeEntry(entry);
+    return true;
+  }
+
+  /**
+   * Drop one namespace: walks only that namespace's list
+   */
+  clearNamespace(name: N): number {
+    const space = this.spaces.get(name);
+    if (!space) return 0;
+
+    for (const node of space.recency) {
+      this.globalRecency.remove(node.value.globalNode);
+    }
+    this.spaces.delete(name);
+    return space.entries.size;
+  }
+
+  clear(): void {
+    this.spaces.clear();
+    this.globalRecency.clear();
+  }
+
+  /**
+   * Change the shared capacity; shrinking evicts the global LRU entries
+   */
+  resize(newCapacity: number): void {
+    this.globalCapacity = assertNonNegative('globalCapacity', newCapacity);
+    this.evictGlobal();
+  }
+
+  /**
+   * Keys of one namespace, MRU → LRU
+   */
+  *keys(name: N): IterableIterator<K> {
+    const space = this.spaces.get(name);
+    if (!space) return;
+    for (const node of space.recency) yield node.key;
+  }
+
+  private touch(entry: NamespacedEntry<N, K, V>): void {
+    this.globalRecency.moveToFront(entry.globalNode);
+    this.spaces.get(entry.namespace)!.recency.moveToFront(entry.localNode);
+  }
+
+  private evictGlobal(): void {
+    while (this.globalRecency.size > this.globalCapacity) {
+      this.removeEntry(this.globalRecency.peekLRU()!.value);
+    }
+  }
+
+  private removeEntry(entry: NamespacedEntry<N, K, V>): void {
+    const space = this.spaces.get(entry.namespace)!;
+
+    this.globalRecency.remove(entry.globalNode);
+    space.recency.remove(entry.localNode);
+    space.entries.delete(entry.localNode.key);
+
+    // Don't keep empty namespaces around (bounded memory)
+    if (space.entries.size === 0) this.spaces.delete(entry.namespace);
+  }
+
+  private spaceFor(name: N): NamespaceSpace<N, K, V> {
+    let space = this.spaces.get(name);
+    if (!space) {
+      space = new NamespaceSpace<N, K, V>();
+      this.spaces.set(name, space);
+    }
+    return space;
+  }
+
+  private limitOf(name: N): number {
+    return this.limits.get(name) ?? this.defaultNamespaceLimit;
+  }
+}
+
+/**
+ * Thin view so callers can treat one tenant like a plain cache
+ */
+class CacheNamespace<N, K, V> {
+  constructor(
+    private readonly owner: NamespacedCache<N, K, V>,
+    readonly name: N,
+  ) {}
+
+  get size(): number {
+    return this.owner.namespaceSize(this.name);
+  }
+
+  get(key: K): V | undefined {
+    return this.owner.get(this.name, key);
+  }
+
+  has(key: K): boolean {
+    return this.owner.has(this.name, key);
+  }
+
+  put(key: K, value: V): void {
+    this.owner.put(this.name, key, value);
+  }
+
+  delete(key: K): boolean {
+    return this.owner.delete(this.name, key);
+  }
+
+  clear(): number {
+    return this.owner.clearNamespace(this.name);
+  }
+
+  keys(): IterableIterator<K> {
+    return this.owner.keys(this.name);
+  }
+}
+
+/***********************************************************************
+ * STEP 12: POLICY BENCHMARK (Trace Replay)
+ *
+ * RESPONSIBILITY:
+ * - Replay a key trace against one cache per policy
+ * - Report hit rate so a policy can be chosen per workload
+ *
+ * SPEAK:
+ * "There is no best policy in general — replay the real
+ *  access pattern and measure."
+ ***********************************************************************/
+type PolicyFactory<K> = (capacity: number) => EvictionPolicy<K>;
+
+interface PolicyBenchmarkResult {
+  policy: string;
+  hits: number;
+  misses: number;
+  hitRate: number; // 0..1
+}
+
+function allPolicies<K>(): PolicyFactory<K>[] {
+  return [
+    () => new LRUPolicy<K>(),
+    () => new LFUPolicy<K>(),
+    () => new FIFOPolicy<K>(),
+    (capacity) => new TwoQueuePolicy<K>(capacity),
+    (capacity) => new ARCPolicy<K>(capacity),
+  ];
+}
+
+function benchmarkPolicies<K>(
+  trace: readonly K[],
+  capacity: number,
+  policies: PolicyFactory<K>[] = allPolicies<K>(),
+): PolicyBenchmarkResult[] {
+  return policies.map((createPolicy) => {
+    const cache = new LRUCache<K, true>(capacity, {
+      policy: createPolicy(capacity),
+    });
+
+    // Read-through replay: a miss loads the key into the cache
+    for (const key of trace) {
+      if (cache.get(key) === undefined) cache.put(key, true);
+    }
+
+    const { hits, misses, hitRatio } = cache.stats();
+    return { policy: cache.policyName, hits, misses, hitRate: hitRatio };
+  });
+}
+
+function printBenchmark(results: PolicyBenchmarkResult[]): void {
+  for (const result of results) {
+    const rate = (result.hitRate * 100).toFixed(1).padStart(5);
+    console.log(`${result.policy.padEnd(5)} hit rate ${rate}%`);
+  }
+}
+
+/***********************************************************************
+ * STEP 13: DEMO / TEST CASES
+ ***********************************************************************/
+
+// Basic test
+const cache = new LRUCache<number, number>(2);
+
+cache.put(1, 10);
+cache.put(2, 20);
+
+console.log(cache.get(1)); // 10
+
+cache.put(3, 30); // evicts key 2
+
+console.log(cache.get(2)); // undefined
+console.log(cache.get(3)); // 30
+
+// Edge case: capacity = 1
+const cache2 = new LRUCache<number, number>(1);
+
+cache2.put(1, 1);
+cache2.put(2, 2); // evicts 1
+
+console.log(cache2.get(1)); // undefined
+console.log(cache2.get(2)); // 2
+
+// Edge case: capacity = 0
+const cache3 = new LRUCache<number, number>(0);
+
+cache3.put(1, 1);
+console.log(cache3.get(1)); // undefined
+
+// Stored -1 is no longer confused with a miss
+const cache4 = new LRUCache<string, number>(3);
+
+cache4.put('a', -1);
+console.log(cache4.get('a'), cache4.has('b')); // -1 false
+
+// Map-like API: peek does not promote, iteration is MRU → LRU
+cache4.put('b', 2);
+cache4.put('c', 3);
+console.log(cache4.peek('a')); // -1
+console.log([...cache4.keys()]); // [ 'c', 'b', 'a' ]
+
+cache4.put('d', 4); // evicts 'a' (peek left it at the tail)
+console.log(cache4.has('a'), cache4.size); // false 3
+
+console.log(cache4.delete('c'), cache4.delete('c')); // true false
+console.log([...cache4]); // [ [ 'd', 4 ], [ 'b', 2 ] ]
+
+cache4.clear();
+console.log(cache4.size, [...cache4.values()]); // 0 []
+
+// Object keys work too
+const objKey = { id: 1 };
+const cache5 = new LRUCache<object, string>(1);
+cache5.put(objKey, 'user-1');
+console.log(cache5.get(objKey), cache5.get({ id: 1 })); // user-1 undefined
+
+// TTL: per-entry and cache-wide default, driven by a fake clock
+const clock = new FakeClock();
+const ttlCache = new LRUCache<string, string>(5, {
+  defaultTtlMs: 1000,
+  clock: clock.now,
+});
+
+ttlCache.put('session', 'abc'); // default 1000ms
+ttlCache.put('short', 'x', { ttlMs: 100 });
+ttlCache.put('long', 'y', { ttlMs: 5000 });
+
+clock.advance(150);
+console.log(ttlCache.get('short'), ttlCache.has('short')); // undefined false
+console.log(ttlCache.get('session')); // abc
+
+clock.advance(1000);
+console.log(ttlCache.has('session'), ttlCache.get('long')); // false y
+
+// purgeExpired removes nodes from the middle of the list
+ttlCache.put('a', '1', { ttlMs: 5000 });
+ttlCache.put('mid', '2', { ttlMs: 10 });
+ttlCache.put('b', '3', { ttlMs: 5000 });
+clock.advance(20);
+console.log(ttlCache.purgeExpired()); // 1
+console.log([...ttlCache.keys()]); // [ 'b', 'a', 'long' ]
+
+// Weight-based capacity: budget of 10 "bytes", weight = string length
+const weighted = new LRUCache<string, string>(Infinity, {
+  maxWeight: 10,
+  sizeOf: (value) => value.length,
+});
+
+weighted.put('a', 'xxxx'); // 4
+weighted.put('b', 'yyyy'); // 8
+weighted.put('c', 'zzzz'); // 12 > 10 → evicts 'a'
+console.log([...weighted.keys()], weighted.totalWeight); // [ 'c', 'b' ] 8
+
+// Overwriting re-weighs the entry and may evict others
+weighted.put('c', 'zzzzzzzz'); // c: 4 → 8, total 12 → evicts 'b'
+console.log([...weighted.keys()], weighted.totalWeight); // [ 'c' ] 8
+
+weighted.put('c', 'z'); // shrink: 8 → 1
+console.log(weighted.totalWeight); // 1
+
+// A single item bigger than the whole budget is rejected
+try {
+  weighted.put('huge', 'x'.repeat(11));
+} catch (err) {
+  console.log((err as Error).message); // Item weight 11 exceeds maxWeight 10
+}
+console.log(weighted.has('huge'), weighted.totalWeight); // false 1
+
+// Eviction policies: same cache, different victim
+const lfu = new LRUCache<string, number>(2, { policy: new LFUPolicy() });
+lfu.put('a', 1);
+lfu.put('b', 2);
+lfu.get('a');
+lfu.get('a');
+lfu.get('b'); // b is now the most recent, but a is more frequent
+lfu.put('c', 3); // evicts b (freq 2 < 3)
+console.log([...lfu.keys()]); // [ 'a', 'c' ]
+
+const fifo = new LRUCache<string, number>(2, { policy: new FIFOPolicy() });
+fifo.put('a', 1);
+fifo.put('b', 2);
+fifo.get('a'); // reads don't save 'a' under FIFO
+fifo.put('c', 3);
+console.log(fifo.has('a'), fifo.has('b')); // false true
+
+// Benchmark: a hot working set regularly interrupted by one-off scans.
+// Seeded LCG keeps the trace (and the numbers) reproducible.
+let seed = 42;
+const nextRandom = (): number => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const trace: string[] = [];
+for (let i = 0; i < 5000; i++) {
+  trace.push(`hot-${Math.floor(nextRandom() * 20)}`);
+  if (i % 250 === 0) {
+    for (let s = 0; s < 30; s++) trace.push(`scan-${i}-${s}`);
+  }
+}
+
+printBenchmark(benchmarkPolicies(trace, 25));
+
+// resize: shrink under memory pressure, grow at peak
+const resizable = new LRUCache<string, number>(4);
+['a', 'b', 'c', 'd'].forEach((key, i) => resizable.put(key, i));
+resizable.get('a');
+
+resizable.resize(2); // keeps the two most recent: a, d
+console.log([...resizable.keys()], resizable.capacity); // [ 'a', 'd' ] 2
+
+resizable.resize(3);
+resizable.put('e', 4);
+console.log(resizable.size); // 3
+
+// ARC forgets ghosts from its old size: k5 comes back as a new key
+const shrunk = new LRUCache<string, number>(100, {
+  policy: new ARCPolicy<string>(100),
+});
+for (let i = 0; i < 100; i++) shrunk.put(`k${i}`, i);
+shrunk.resize(2); // keeps k98, k99
+shrunk.put('k5', 5);
+shrunk.put('x', 0);
+console.log([...shrunk.keys()]); // [ 'x', 'k5' ] (both only seen once)
+
+// Namespaced: tenants share 5 slots, each may hold at most 3
+const tenants = new NamespacedCache<string, string, number>(5, {
+  defaultNamespaceLimit: 3,
+});
+const acme = tenants.namespace('acme');
+const globex = tenants.namespace('globex');
+
+acme.put('a1', 1);
+acme.put('a2', 2);
+acme.put('a3', 3);
+acme.put('a4', 4); // acme over its limit → evicts a1
+console.log([...acme.keys()]); // [ 'a4', 'a3', 'a2' ]
+
+globex.put('g1', 1);
+globex.put('g2', 2);
+acme.get('a2'); // refresh a2 globally
+globex.put('g3', 3); // 6 > 5 → evicts the global LRU: acme's a3
+console.log([...acme.keys()], tenants.size); // [ 'a2', 'a4' ] 5
+
+console.log(acme.clear(), tenants.size, globex.size); // 2 3 3
+
+tenants.resize(2); // evicts g1
+console.log([...globex.keys()]); // [ 'g3', 'g2' ]
+
+// getOrLoad: async read-through with a local fake loader
+class FakeLoader {
+  calls = 0;
+  failuresLeft = 0;
+
+  load = async (key: string): Promise<string> => {
+    this.calls++;
+    await Promise.resolve(); // simulate I/O
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error(`backend down for ${key}`);
+    }
+    return `${key}@v${this.calls}`;
+  };
+}
+
+const flushPromises = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+const runLoadingDemo = async (): Promise<void> => {
+  const loadClock = new FakeClock();
+  const loader = new FakeLoader();
+  const loading = new LRUCache<string, string>(10, {
+    defaultTtlMs: 1000,
+    staleWhileRevalidateMs: 500,
+    negativeTtlMs: 200,
+    clock: loadClock.now,
+  });
+
+  // Single-flight: three concurrent misses, one loader call
+  const values = await Promise.all([
+    loading.getOrLoad('user', loader.load),
+    loading.getOrLoad('user', loader.load),
+    loading.getOrLoad('user', loader.load),
+  ]);
+  console.log(values, loader.calls); // [ 'user@v1', 'user@v1', 'user@v1' ] 1
+
+  // Stale-while-revalidate: old value now, fresh value after refresh
+  loadClock.advance(1200); // expired, but inside the 500ms stale window
+  console.log(loading.get('user')); // undefined (plain get ignores stale)
+  console.log(await loading.getOrLoad('user', loader.load)); // user@v1
+  await flushPromises(); // let the background refresh settle
+  console.log(await loading.getOrLoad('user', loader.load)); // user@v2
+
+  // Negative caching: a failure is replayed for negativeTtlMs
+  loader.failuresLeft = 1;
+  const attempt = (): Promise<string> =>
+    loading.getOrLoad('orders', loader.load).catch((err) => err.message);
+
+  console.log(await attempt()); // backend down for orders
+  console.log(await attempt(), loader.calls); // backend down for orders 3
+  loadClock.advance(250); // failure forgotten
+  console.log(await attempt(), loader.calls); // orders@v4 4
+};
+
+// Hooks + stats: release resources tied to entries as they leave
+const released: string[] = [];
+const observed = new LRUCache<string, string>(2, {
+  onEvict: (key, value, reason) => released.push(`${key}=${value}:${reason}`),
+});
+
+observed.put('a', 'A');
+observed.put('b', 'B');
+observed.get('a'); // hit
+observed.get('zzz'); // miss
+observed.put('c', 'C'); // evicts b (CAPACITY)
+observed.put('a', 'A2'); // REPLACED
+observed.delete('c'); // DELETED
+console.log(released);
+// [ 'b=B:CAPACITY', 'a=A:REPLACED', 'c=C:DELETED' ]
+console.log(observed.stats());
+// { hits: 1, misses: 1, evictions: 1, expirations: 0, hitRatio: 0.5, size: 1 }
+
+observed.resetStats();
+console.log(observed.stats().hits, observed.stats().hitRatio); // 0 0
+
+// Snapshot: survive a restart with order and TTLs intact
+const runSnapshotDemo = async (): Promise<void> => {
+  const snapClock = new FakeClock(1_000);
+  const warm = new LRUCache<Date, { hits: number }>(3, {
+    clock: snapClock.now,
+  });
+  const [jan1, jan2, jan3] = [1, 2, 3].map(
+    (d) => new Date(Date.UTC(2024, 0, d)),
+  );
+
+  warm.put(jan1, { hits: 1 });
+  warm.put(jan2, { hits: 2 }, { ttlMs: 500 });
+  warm.put(jan3, { hits: 3 });
+  warm.get(jan1); // order: jan1, jan3, jan2 (keys compare by identity)
+
+  // Date keys don't survive JSON, so plug in a key codec
+  const dateKeys: SnapshotSerializer<Date, { hits: number }> = {
+    key: {
+      serialize: (key) => key.toISOString(),
+      deserialize: (raw) => new Date(raw as string),
+    },
+  };
+
+  const filePath = path.join(os.tmpdir(), `lru-snapshot-${process.pid}.json`);
+  await saveSnapshotToFile(warm, filePath, dateKeys);
+
+  const restored = await loadSnapshotFromFile(
+    filePath,
+    3,
+    { clock: snapClock.now },
+    dateKeys,
+  );
+  await fs.unlink(filePath);
+
+  const isoKeys = [...restored.keys()].map((d) => d.toISOString().slice(0, 10));
+  console.log(isoKeys); // [ '2024-01-01', '2024-01-03', '2024-01-02' ]
+
+  snapClock.advance(600); // jan2's TTL came back with it
+  console.log(restored.size, [...restored.values()].length); // 3 2
+};
+
+// Two-tier: L1 of 2 entries in front of a directory on disk
+const runTwoTierDemo = async (): Promise<void> => {
+  const directory = path.join(os.tmpdir(), `lru-l2-${process.pid}`);
+  const store = new FileSystemStore<string, number>(directory);
+
+  // Write-through: L2 is up to date as soon as set() resolves
+  const through = new TwoTierCache<string, number>(2, store);
+  await through.set('a', 1);
+  await through.set('b', 2);
+  await through.set('c', 3); // 'a' leaves L1, still on disk
+  console.log(await store.get('a'), await through.get('a')); // 1 1 (promoted)
+
+  await through.delete('a');
+  console.log(await through.get('a'), await store.get('a')); // undefined undefined
+
+  await through.clear();
+  console.log(await store.get('b')); // undefined
+
+  // Write-behind: batched, reads still see buffered writes
+  const behind = new TwoTierCache<string, number>(2, store, {
+    mode: WriteMode.WRITE_BEHIND,
+    batchSize: 3,
+    flushIntervalMs: 10_000,
+  });
+  await behind.set('x', 1);
+  await behind.set('y', 2);
+  console.log(behind.pendingWrites, await store.get('x')); // 2 undefined
+
+  await behind.set('z', 3); // 3rd write fills the batch → flush starts
+  await behind.close();
+  console.log(behind.pendingWrites, await store.get('x')); // 0 1
+
+  await behind.delete('y'); // tombstone until the next flush
+  console.log(await behind.get('y'), await store.get('y')); // undefined 2
+  await behind.close();
+  console.log(await store.get('y')); // undefined
+
+  // A store with slow writes, to show what overlaps with them
+  const slowly = (): Promise<void> =>
+    new Promise((resolve) => setTimeout(resolve, 20));
+  const slowStore: CacheStore<string, number> = {
+    get: (key) => store.get(key),
+    set: async (key, value) => {
+      await slowly();
+      await store.set(key, value);
+    },
+    delete: async (key) => {
+      await slowly();
+      return store.delete(key);
+    },
+    clear: () => store.clear(),
+  };
+
+  // clear() waits for a batch already in flight, then wipes it
+  const slowBehind = new TwoTierCache<string, number>(2, slowStore, {
+    mode: WriteMode.WRITE_BEHIND,
+  });
+  await slowBehind.set('w', 4);
+  const inFlight = slowBehind.flush();
+  await new Promise((resolve) => setTimeout(resolve, 5)); // batch is writing
+  await slowBehind.clear();
+  await inFlight;
+  console.log(await store.get('w')); // undefined
+
+  // A read during a write-through delete can't bring the value back
+  const slowThrough = new TwoTierCache<string, number>(2, slowStore);
+  await slowThrough.set('d', 5);
+  const deleting = slowThrough.delete('d');
+  await slowThrough.get('d'); // still 5: the delete hasn't finished
+  await deleting;
+  console.log(await slowThrough.get('d')); // undefined
+
+  // Write-through to a store that rejects: L1 doesn't keep the value
+  const readOnly: CacheStore<string, number> = {
+    get: (key) => store.get(key),
+    set: () => Promise.reject(new Error('read-only')),
+    delete: (key) => store.delete(key),
+    clear: () => store.clear(),
+  };
+  const rejecting = new TwoTierCache<string, number>(2, readOnly);
+  await rejecting.set('r', 1).catch((error: Error) => {
+    console.log(error.message); // read-only
+  });
+  console.log(await rejecting.get('r')); // undefined
+
+  await fs.rm(directory, { recursive: true, force: true });
+};
+
+// memoize: sync, async and decorator forms
+const runMemoizeDemo = async (): Promise<void> => {
+  let slowCalls = 0;
+  const slowSquare = memoize((n: number, label: string) => {
+    slowCalls++;
+    return `${label}:${n * n}`;
+  });
+
+  slowSquare(4, 'sq');
+  slowSquare(4, 'sq');
+  console.log(slowSquare(4, 'sq'), slowCalls); // sq:16 1
+
+  slowSquare.invalidate(4, 'sq');
+  slowSquare(4, 'sq');
+  console.log(slowCalls, slowSquare.cache.size); // 2 1
+
+  // Async: concurrent callers share the promise, failures aren't kept
+  let fetches = 0;
+  const fetchProfile = memoize(
+    async (user: { id: number }) => {
+      fetches++;
+      if (fetches === 1) throw new Error('flaky');
+      return `profile-${user.id}`;
+    },
+    { keyFn: (user) => user.id, capacity: 10 },
+  );
+
+  await fetchProfile({ id: 7 }).catch(() => undefined); // rejected, dropped
+  await flushPromises();
+  const [p1, p2] = await Promise.all([
+    fetchProfile({ id: 7 }),
+    fetchProfile({ id: 7 }),
+  ]);
+  console.log(p1, p2, fetches); // profile-7 profile-7 2
+
+  try {
+    memoize((o: object) => o)({});
+  } catch (err) {
+    console.log((err as Error).message);
+    // memoize: pass a keyFn to memoize object arguments
+  }
+
+  class PriceService {
+    lookups = 0;
+
+    @Memoized({ capacity: 5 })
+    price(sku: string): number {
+      this.lookups++;
+      return sku.length * 10;
+    }
+  }
+
+  const service = new PriceService();
+  service.price('apple');
+  service.price('apple');
+  console.log(service.price('apple'), service.lookups); // 50 1
+  console.log(new PriceService().lookups); // 0 (caches are per instance)
+};
+
+// Async demos run one after another so their output doesn't interleave
+(async (): Promise<void> => {
+  await runLoadingDemo();
+  await runSnapshotDemo();
+  await runTwoTierDemo();
+  await runMemoizeDemo();
+})().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
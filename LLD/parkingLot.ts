@@ -11,10 +11,59 @@
  * 2. Each floor has multiple parking spots
  * 3. Spot types support Bike, Car, Truck
  * 4. Vehicles can park and leave
- * 5. System auto-assigns appropriate spot
- * 6. Pricing can be added later (extensible design)
+ * 5. System auto-assigns appropriate spot via a pluggable
+ *    allocation strategy (best-fit, nearest, lowest floor, spread)
+ * 6. Fee charged on exit via pluggable pricing strategies
+ *    (flat hourly, tiered, daily cap, weekend/night)
+ * 7. Tickets are registered and validated (no double park/exit,
+ *    no forged tickets) with a lost-ticket flow
+ * 8. Fees are paid (cash, card, UPI/wallet) before exit, with
+ *    partial payments, retries, refunds and an exit grace period
+ * 9. Several async entry/exit gates share the lot; a spot is held
+ *    before it is confirmed, so no two gates get the same spot
+ * 10. Display boards show live free counts per floor and spot type
+ * 11. Spots can be reserved ahead for a time window
+ * 12. EV charger and accessible spots; charging is metered by energy
+ *     and billed on its own receipt line
+ * 13. Floors and spots can be added, removed or put into maintenance
+ *     at runtime; the layout loads from a validated config file
+ * 14. Every change is journaled to disk; after a crash the lot is
+ *     rebuilt from the last snapshot plus the journal
+ * 15. Completed stays are recorded for usage reports (occupancy, peak
+ *     hours, dwell time, turnover, revenue) exported as CSV or JSON
+ * 16. Kiosks and dashboards drive the lot over a local HTTP JSON API,
+ *     with a command-line client for operators
+ * 17. Registered vehicles can hold passes (monthly, weekday-only,
+ *     N entries a month) for free or discounted parking
+ *
+ * RUN:
+ *   ts-node LLD/parkingLot.ts                 demos
+ *   ts-node LLD/parkingLot.ts serve --port 3000 [--layout lot.json]
+ *   ts-node LLD/parkingLot.ts park CAR KA-01-AB-1234 --port 3000
+ *   ts-node LLD/parkingLot.ts exit|status <ticketId>, floors
  ***********************************************************************/
 
+import { fork } from 'child_process';
+import { createHash, randomUUID } from 'crypto';
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdtempSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  truncateSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+
 /***********************************************************************
  * STEP 1: ENUMS (Domain Constants)
  *
@@ -35,23 +84,114 @@ enum SpotType {
   LARGE = 'LARGE',
 }
 
+enum TicketStatus {
+  ACTIVE = 'ACTIVE', // vehicle is inside
+  PAID = 'PAID', // fee settled, on the way out
+  EXITED = 'EXITED', // left the lot; ticket can't be used again
+}
+
+// Which spot types each vehicle may use, smallest (best fit) first
+const COMPATIBLE_SPOT_TYPES: Record<VehicleType, SpotType[]> = {
+  [VehicleType.BIKE]: [SpotType.BIKE, SpotType.COMPACT],
+  [VehicleType.CAR]: [SpotType.COMPACT, SpotType.LARGE],
+  [VehicleType.TRUCK]: [SpotType.LARGE],
+};
+
+// Spots of one SpotType split further by their features
+enum SpotKind {
+  STANDARD = 'STANDARD',
+  EV_CHARGER = 'EV_CHARGER',
+  ACCESSIBLE = 'ACCESSIBLE',
+  ACCESSIBLE_EV = 'ACCESSIBLE_EV',
+}
+
+/**
+ * Spot kinds a vehicle may use, most wanted first.
+ * Accessible spots are kept for permit holders and chargers for
+ * EVs that asked to charge; accessibility comes before charging.
+ */
+function spotKindsFor(vehicle: Vehicle): SpotKind[] {
+  const { accessibilityPermit, wantsCharging } = vehicle.attributes;
+  const kinds: SpotKind[] = [];
+
+  if (accessibilityPermit && wantsCharging) kinds.push(SpotKind.ACCESSIBLE_EV);
+  if (accessibilityPermit) kinds.push(SpotKind.ACCESSIBLE);
+  if (wantsCharging) kinds.push(SpotKind.EV_CHARGER);
+  kinds.push(SpotKind.STANDARD);
+
+  return kinds;
+}
+
+/***********************************************************************
+ * STEP 2: ERRORS
+ *
+ * SPEAK:
+ * "Callers (gates, kiosks, an API) need to react differently to
+ *  'lot full' and 'forged ticket', so every failure carries a code."
+ ***********************************************************************/
+
+enum ParkingErrorCode {
+  NO_SPOT_AVAILABLE = 'NO_SPOT_AVAILABLE',
+  VEHICLE_ALREADY_PARKED = 'VEHICLE_ALREADY_PARKED',
+  TICKET_NOT_FOUND = 'TICKET_NOT_FOUND',
+  TICKET_FORGED = 'TICKET_FORGED',
+  TICKET_ALREADY_EXITED = 'TICKET_ALREADY_EXITED',
+  INVALID_TICKET_STATE = 'INVALID_TICKET_STATE',
+  HOLD_NOT_FOUND = 'HOLD_NOT_FOUND',
+  RESERVATION_NOT_FOUND = 'RESERVATION_NOT_FOUND',
+  RESERVATION_CONFLICT = 'RESERVATION_CONFLICT',
+  INVALID_RESERVATION = 'INVALID_RESERVATION',
+  PAYMENT_REQUIRED = 'PAYMENT_REQUIRED',
+  PAYMENT_DECLINED = 'PAYMENT_DECLINED',
+  PAYMENT_FAILED = 'PAYMENT_FAILED',
+  INVALID_PAYMENT = 'INVALID_PAYMENT',
+  INVALID_METER_READING = 'INVALID_METER_READING',
+  SPOT_NOT_FOUND = 'SPOT_NOT_FOUND',
+  FLOOR_NOT_FOUND = 'FLOOR_NOT_FOUND',
+  SPOT_OCCUPIED = 'SPOT_OCCUPIED',
+  INVALID_LAYOUT = 'INVALID_LAYOUT',
+  INVALID_REPORT_RANGE = 'INVALID_REPORT_RANGE',
+  INVALID_PASS = 'INVALID_PASS',
+}
+
+class ParkingLotError extends Error {
+  constructor(
+    public readonly code: ParkingErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ParkingLotError';
+  }
+}
+
 /***********************************************************************
- * STEP 2: VEHICLE (Abstraction)
+ * STEP 3: VEHICLE (Abstraction)
  *
  * SPEAK:
  * "Vehicle is a concept, not a concrete object.
  *  I make it abstract so no one can create a generic vehicle."
  ***********************************************************************/
 
+interface VehicleAttributes {
+  electric?: boolean;
+  accessibilityPermit?: boolean;
+  wantsCharging?: boolean; // this visit; electric vehicles only
+}
+
 abstract class Vehicle {
   constructor(
     public readonly vehicleNumber: string, // immutable identity
     public readonly type: VehicleType, // fixed vehicle type
-  ) {}
+    public readonly attributes: VehicleAttributes = {},
+  ) {
+    if (attributes.wantsCharging && !attributes.electric) {
+      throw new Error(`Vehicle ${vehicleNumber} is not electric`);
+    }
+  }
 }
 
 /***********************************************************************
- * STEP 3: CONCRETE VEHICLES (Inheritance)
+ * STEP 4: CONCRETE VEHICLES (Inheritance)
  *
  * SPEAK:
  * "Car, Bike, and Truck are specific types of Vehicle.
@@ -59,25 +199,25 @@ abstract class Vehicle {
  ***********************************************************************/
 
 class Bike extends Vehicle {
-  constructor(vehicleNumber: string) {
-    super(vehicleNumber, VehicleType.BIKE);
+  constructor(vehicleNumber: string, attributes: VehicleAttributes = {}) {
+    super(vehicleNumber, VehicleType.BIKE, attributes);
   }
 }
 
 class Car extends Vehicle {
-  constructor(vehicleNumber: string) {
-    super(vehicleNumber, VehicleType.CAR);
+  constructor(vehicleNumber: string, attributes: VehicleAttributes = {}) {
+    super(vehicleNumber, VehicleType.CAR, attributes);
   }
 }
 
 class Truck extends Vehicle {
-  constructor(vehicleNumber: string) {
-    super(vehicleNumber, VehicleType.TRUCK);
+  constructor(vehicleNumber: string, attributes: VehicleAttributes = {}) {
+    super(vehicleNumber, VehicleType.TRUCK, attributes);
   }
 }
 
 /***********************************************************************
- * STEP 4: PARKING SPOT (Encapsulation)
+ * STEP 5: PARKING SPOT (Encapsulation)
  *
  * SPEAK:
  * "ParkingSpot owns the most important invariant:
@@ -85,47 +225,95 @@ class Truck extends Vehicle {
  *  I strongly encapsulate this state."
  ***********************************************************************/
 
+interface SpotFeatures {
+  chargerKw?: number; // EV charger power rating
+  accessible?: boolean; // wider bay near the lifts
+}
+
 class ParkingSpot {
   // Private ensures no external class can mutate state directly
   private parkedVehicle: Vehicle | null = null;
+  private holdId: string | null = null; // set while a gate is confirming
+  private maintenance = false; // no new vehicles; a parked one may leave
 
   constructor(
     public readonly spotId: string, // unique identifier
     public readonly type: SpotType, // spot size/type
+    public readonly distanceFromEntry: number = 0, // e.g. metres to the gate
+    public readonly features: SpotFeatures = {},
   ) {}
 
-  // Check if the spot is currently free
+  get kind(): SpotKind {
+    const charger = (this.features.chargerKw ?? 0) > 0;
+    if (this.features.accessible) {
+      return charger ? SpotKind.ACCESSIBLE_EV : SpotKind.ACCESSIBLE;
+    }
+    return charger ? SpotKind.EV_CHARGER : SpotKind.STANDARD;
+  }
+
+  // Check if the spot is currently free (not parked in, held or closed)
   isFree(): boolean {
-    return this.parkedVehicle === null;
+    return (
+      this.parkedVehicle === null && this.holdId === null && !this.maintenance
+    );
   }
 
-  // Business rule: check if vehicle can fit in this spot
-  canFitVehicle(vehicle: Vehicle): boolean {
-    if (!this.isFree()) return false;
+  // Parked in or held: the spot can't be removed
+  isInUse(): boolean {
+    return this.parkedVehicle !== null || this.holdId !== null;
+  }
 
-    switch (vehicle.type) {
-      case VehicleType.BIKE:
-        return this.type === SpotType.BIKE || this.type === SpotType.COMPACT;
+  isInMaintenance(): boolean {
+    return this.maintenance;
+  }
 
-      case VehicleType.CAR:
-        return this.type === SpotType.COMPACT || this.type === SpotType.LARGE;
+  setMaintenance(on: boolean): void {
+    this.maintenance = on;
+  }
 
-      case VehicleType.TRUCK:
-        return this.type === SpotType.LARGE;
+  // Business rule: check if vehicle can fit in this spot
+  canFitVehicle(vehicle: Vehicle): boolean {
+    if (!this.isFree()) return false;
 
-      default:
-        return false;
-    }
+    return this.fits(vehicle);
   }
 
-  // Park vehicle after validating rules
-  parkVehicle(vehicle: Vehicle): void {
-    if (!this.canFitVehicle(vehicle)) {
+  // Park vehicle after validating rules; a held spot needs its hold ID
+  parkVehicle(vehicle: Vehicle, holdId: string | null = null): void {
+    // A hold taken before maintenance started is still honoured
+    const claimable =
+      this.parkedVehicle === null &&
+      this.holdId === holdId &&
+      (holdId !== null || !this.maintenance);
+    if (!claimable || !this.fits(vehicle)) {
       throw new Error('Vehicle cannot fit in the parking spot');
     }
+    this.holdId = null;
     this.parkedVehicle = vehicle;
   }
 
+  // Set the spot aside for one pending assignment
+  hold(holdId: string): void {
+    if (!this.isFree()) {
+      throw new Error(`Spot ${this.spotId} is not free`);
+    }
+    this.holdId = holdId;
+  }
+
+  // Only the matching hold can be released
+  releaseHold(holdId: string): boolean {
+    if (this.holdId !== holdId) return false;
+    this.holdId = null;
+    return true;
+  }
+
+  // Size must match, and so must the spot's features
+  private fits(vehicle: Vehicle): boolean {
+    const sizeFits =
+      COMPATIBLE_SPOT_TYPES[vehicle.type]?.includes(this.type) ?? false;
+    return sizeFits && spotKindsFor(vehicle).includes(this.kind);
+  }
+
   // Free the spot
   removeVehicle(): void {
     this.parkedVehicle = null;
@@ -133,32 +321,373 @@ class ParkingSpot {
 }
 
 /***********************************************************************
- * STEP 5: PARKING FLOOR (Composition)
+ * STEP 6: MIN HEAP (Free-Spot Index Building Block)
+ *
+ * SPEAK:
+ * "A heap gives me the nearest free spot in O(log n)
+ *  instead of scanning every spot on the floor."
+ ***********************************************************************/
+
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.items[index], this.items[parent]) >= 0) return;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (
+        left < this.items.length &&
+        this.compare(this.items[left], this.items[smallest]) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < this.items.length &&
+        this.compare(this.items[right], this.items[smallest]) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) return;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    [this.items[i], this.items[j]] = [this.items[j], this.items[i]];
+  }
+}
+
+/***********************************************************************
+ * STEP 7: PARKING FLOOR (Composition)
  *
  * SPEAK:
  * "A parking floor groups parking spots.
- *  It helps find a spot but does not park vehicles itself."
+ *  It keeps a free-spot index per spot type, so finding a spot
+ *  never scans the floor. All occupy/release calls go through
+ *  the floor so the index can't drift from reality."
+ *
+ * DESIGN:
+ * - One min-heap of free spots per SpotType, nearest to entry first
+ * - Lazy deletion: a spot taken out of order (or closed, or removed)
+ *   stays in its heap and is skipped when it reaches the top
+ * - A floor in maintenance reports no free spots at all
  ***********************************************************************/
 
 class ParkingFloor {
+  private freeIndex = new Map<string, MinHeap<ParkingSpot>>(); // type/kind
+  private freeCounts = new Map<SpotType, number>();
+  private inIndex = new Set<ParkingSpot>();
+  private position = new Map<ParkingSpot, number>(); // tie-break order
+  private members = new Set<ParkingSpot>(); // keeps insertion order
+  private maintenance = false;
+
   constructor(
-    private readonly floorNumber: number,
-    public readonly spots: ParkingSpot[],
-  ) {}
+    public readonly floorNumber: number,
+    spots: ParkingSpot[],
+  ) {
+    spots.forEach((spot) => this.addSpot(spot));
+  }
+
+  get spots(): ParkingSpot[] {
+    return [...this.members];
+  }
+
+  get inMaintenance(): boolean {
+    return this.maintenance;
+  }
+
+  hasSpot(spot: ParkingSpot): boolean {
+    return this.members.has(spot);
+  }
+
+  freeCount(type: SpotType): number {
+    if (this.maintenance) return 0;
+    return this.freeCounts.get(type) ?? 0;
+  }
+
+  totalFree(): number {
+    let total = 0;
+    for (const type of Object.values(SpotType)) total += this.freeCount(type);
+    return total;
+  }
+
+  // Share of spots in use, 0..1 (used to spread load)
+  occupancy(): number {
+    if (this.members.size === 0) return 1;
+    return 1 - this.totalFree() / this.members.size;
+  }
+
+  // Nearest free spot of one type and kind on this floor
+  peekFreeSpot(type: SpotType, kind: SpotKind): ParkingSpot | null {
+    if (this.maintenance) return null;
+
+    const heap = this.freeIndex.get(indexKey(type, kind));
+    if (!heap) return null;
+
+    // Drop entries that were occupied out of heap order, or removed
+    while (heap.size > 0 && !this.isIndexed(heap.peek()!)) {
+      this.inIndex.delete(heap.pop()!);
+    }
+    return heap.peek() ?? null;
+  }
+
+  addSpot(spot: ParkingSpot): void {
+    if (!this.position.has(spot)) this.position.set(spot, this.position.size);
+    this.members.add(spot);
+    if (spot.isFree()) this.markFree(spot);
+  }
+
+  // Callers check the spot is not in use; its heap entry goes lazily
+  removeSpot(spot: ParkingSpot): void {
+    this.assertOwnSpot(spot);
+    if (spot.isInUse()) {
+      throw new Error(`Spot ${spot.spotId} is in use`);
+    }
+    if (spot.isFree()) {
+      this.freeCounts.set(spot.type, (this.freeCounts.get(spot.type) ?? 0) - 1);
+    }
+    this.members.delete(spot);
+  }
+
+  setMaintenance(on: boolean): void {
+    this.maintenance = on;
+  }
+
+  setSpotMaintenance(spot: ParkingSpot, on: boolean): void {
+    this.assertOwnSpot(spot);
+    const wasFree = spot.isFree();
+    spot.setMaintenance(on);
+
+    if (wasFree && !spot.isFree()) {
+      this.freeCounts.set(spot.type, (this.freeCounts.get(spot.type) ?? 0) - 1);
+    } else if (!wasFree && spot.isFree()) {
+      this.markFree(spot);
+    }
+  }
+
+  // Smallest compatible free spot of one kind on this floor (best fit)
+  findAvailableSpot(vehicle: Vehicle, kind: SpotKind): ParkingSpot | null {
+    for (const type of COMPATIBLE_SPOT_TYPES[vehicle.type]) {
+      const spot = this.peekFreeSpot(type, kind);
+      if (spot) return spot;
+    }
+    return null;
+  }
+
+  occupySpot(
+    spot: ParkingSpot,
+    vehicle: Vehicle,
+    holdId: string | null = null,
+  ): void {
+    this.assertOwnSpot(spot);
+    spot.parkVehicle(vehicle, holdId);
+    // A held spot was already taken out of the free count
+    if (holdId === null) {
+      this.freeCounts.set(spot.type, (this.freeCounts.get(spot.type) ?? 0) - 1);
+    }
+  }
+
+  holdSpot(spot: ParkingSpot, holdId: string): void {
+    this.assertOwnSpot(spot);
+    if (this.maintenance) {
+      throw new Error(`Floor ${this.floorNumber} is in maintenance`);
+    }
+    spot.hold(holdId);
+    this.freeCounts.set(spot.type, (this.freeCounts.get(spot.type) ?? 0) - 1);
+  }
+
+  releaseHold(spot: ParkingSpot, holdId: string): void {
+    this.assertOwnSpot(spot);
+    if (spot.releaseHold(holdId) && spot.isFree()) this.markFree(spot);
+  }
+
+  // A spot in maintenance stays out of the index once its vehicle leaves
+  releaseSpot(spot: ParkingSpot): void {
+    this.assertOwnSpot(spot);
+    if (!spot.isInUse()) return;
+
+    spot.removeVehicle();
+    if (spot.isFree()) this.markFree(spot);
+  }
+
+  private isIndexed(spot: ParkingSpot): boolean {
+    return spot.isFree() && this.members.has(spot);
+  }
+
+  private markFree(spot: ParkingSpot): void {
+    this.freeCounts.set(spot.type, (this.freeCounts.get(spot.type) ?? 0) + 1);
+
+    // A stale heap entry for this spot is valid again; don't duplicate it
+    if (this.inIndex.has(spot)) return;
+    this.inIndex.add(spot);
+    this.heapFor(spot.type, spot.kind).push(spot);
+  }
+
+  private heapFor(type: SpotType, kind: SpotKind): MinHeap<ParkingSpot> {
+    const key = indexKey(type, kind);
+    let heap = this.freeIndex.get(key);
+    if (!heap) {
+      heap = new MinHeap<ParkingSpot>(
+        (a, b) =>
+          a.distanceFromEntry - b.distanceFromEntry ||
+          this.position.get(a)! - this.position.get(b)!,
+      );
+      this.freeIndex.set(key, heap);
+    }
+    return heap;
+  }
+
+  private assertOwnSpot(spot: ParkingSpot): void {
+    if (!this.hasSpot(spot)) {
+      throw new Error(
+        `Spot ${spot.spotId} is not on floor ${this.floorNumber}`,
+      );
+    }
+  }
+}
+
+function indexKey(type: SpotType, kind: SpotKind): string {
+  return `${type}/${kind}`;
+}
+
+/***********************************************************************
+ * STEP 8: SPOT ALLOCATION (Strategy Pattern)
+ *
+ * SPEAK:
+ * "Which spot a vehicle gets is a policy decision, not a floor
+ *  concern. Each strategy only asks the floors' free-spot indexes,
+ *  so allocation costs O(floors × spot types), never O(spots).
+ *  The lot asks once per spot kind, in the vehicle's preference order."
+ ***********************************************************************/
+
+interface SpotAllocationStrategy {
+  selectSpot(
+    vehicle: Vehicle,
+    floors: ParkingFloor[],
+    kind: SpotKind,
+  ): ParkingSpot | null;
+}
+
+// Smallest compatible spot type anywhere, lower floors breaking ties
+class BestFitAllocation implements SpotAllocationStrategy {
+  selectSpot(
+    vehicle: Vehicle,
+    floors: ParkingFloor[],
+    kind: SpotKind,
+  ): ParkingSpot | null {
+    for (const type of COMPATIBLE_SPOT_TYPES[vehicle.type]) {
+      for (const floor of floors) {
+        const spot = floor.peekFreeSpot(type, kind);
+        if (spot) return spot;
+      }
+    }
+    return null;
+  }
+}
 
-  // Find first available compatible spot
-  findAvailableSpot(vehicle: Vehicle): ParkingSpot | null {
-    for (const spot of this.spots) {
-      if (spot.canFitVehicle(vehicle)) {
-        return spot;
+// Shortest walk to the entry gate, whatever the floor or spot size
+class NearestToEntryAllocation implements SpotAllocationStrategy {
+  selectSpot(
+    vehicle: Vehicle,
+    floors: ParkingFloor[],
+    kind: SpotKind,
+  ): ParkingSpot | null {
+    let nearest: ParkingSpot | null = null;
+
+    for (const floor of floors) {
+      for (const type of COMPATIBLE_SPOT_TYPES[vehicle.type]) {
+        const spot = floor.peekFreeSpot(type, kind);
+        if (
+          spot &&
+          (!nearest || spot.distanceFromEntry < nearest.distanceFromEntry)
+        ) {
+          nearest = spot;
+        }
       }
     }
+    return nearest;
+  }
+}
+
+// Fill floors bottom-up; best fit within a floor
+class LowestFloorFirstAllocation implements SpotAllocationStrategy {
+  selectSpot(
+    vehicle: Vehicle,
+    floors: ParkingFloor[],
+    kind: SpotKind,
+  ): ParkingSpot | null {
+    const ordered = [...floors].sort((a, b) => a.floorNumber - b.floorNumber);
+
+    for (const floor of ordered) {
+      const spot = floor.findAvailableSpot(vehicle, kind);
+      if (spot) return spot;
+    }
     return null;
   }
 }
 
+// Least occupied floor that can take the vehicle; best fit within it
+class SpreadLoadAllocation implements SpotAllocationStrategy {
+  selectSpot(
+    vehicle: Vehicle,
+    floors: ParkingFloor[],
+    kind: SpotKind,
+  ): ParkingSpot | null {
+    let chosen: ParkingSpot | null = null;
+    let lowestOccupancy = Infinity;
+
+    for (const floor of floors) {
+      const spot = floor.findAvailableSpot(vehicle, kind);
+      const occupancy = floor.occupancy();
+      if (spot && occupancy < lowestOccupancy) {
+        chosen = spot;
+        lowestOccupancy = occupancy;
+      }
+    }
+    return chosen;
+  }
+}
+
 /***********************************************************************
- * STEP 6: TICKET (Single Responsibility Principle)
+ * STEP 9: TICKET (Single Responsibility Principle)
  *
  * SPEAK:
  * "Ticket is a data holder.
@@ -166,97 +695,5429 @@ class ParkingFloor {
  ***********************************************************************/
 
 class Ticket {
-  public readonly entryTime: Date;
+  private status: TicketStatus = TicketStatus.ACTIVE;
+  private paidAt: Date | null = null;
+  private exitTime: Date | null = null;
 
   constructor(
     public readonly vehicle: Vehicle,
     public readonly spot: ParkingSpot,
     public readonly ticketId: string,
-  ) {
-    this.entryTime = new Date(); // captured at creation
+    public readonly entryTime: Date, // from the lot's clock
+  ) {}
+
+  getStatus(): TicketStatus {
+    return this.status;
+  }
+
+  getPaidAt(): Date | null {
+    return this.paidAt;
+  }
+
+  getExitTime(): Date | null {
+    return this.exitTime;
+  }
+
+  // Lifecycle: ACTIVE → PAID → EXITED.
+  // The only way back is PAID → ACTIVE, when the driver overstays the
+  // exit grace period or a refund leaves the fee unpaid.
+  markPaid(time: Date): void {
+    this.assertStatus(TicketStatus.ACTIVE, 'be paid');
+    this.paidAt = time;
+    this.status = TicketStatus.PAID;
+  }
+
+  reopen(): void {
+    this.assertStatus(TicketStatus.PAID, 'be reopened');
+    this.paidAt = null;
+    this.status = TicketStatus.ACTIVE;
+  }
+
+  markExited(time: Date): void {
+    this.assertStatus(TicketStatus.PAID, 'exit');
+    this.exitTime = time;
+    this.status = TicketStatus.EXITED;
+  }
+
+  private assertStatus(expected: TicketStatus, action: string): void {
+    if (this.status === expected) return;
+
+    if (this.status === TicketStatus.EXITED) {
+      throw new ParkingLotError(
+        ParkingErrorCode.TICKET_ALREADY_EXITED,
+        `Ticket ${this.ticketId} has already exited`,
+      );
+    }
+    throw new ParkingLotError(
+      ParkingErrorCode.INVALID_TICKET_STATE,
+      `Ticket ${this.ticketId} is ${this.status} and cannot ${action}`,
+    );
   }
 }
 
 /***********************************************************************
- * STEP 7: PARKING LOT (Orchestrator)
+ * STEP 10: TICKET REGISTRY (Single Source of Truth)
  *
  * SPEAK:
- * "ParkingLot is the entry point.
- *  It orchestrates the flow and delegates responsibilities."
+ * "The lot never trusts a ticket object it is handed.
+ *  The registry issues unique IDs, knows which vehicles are inside,
+ *  and checks that a presented ticket is the one it issued."
  ***********************************************************************/
 
-class ParkingLot {
-  constructor(private readonly floors: ParkingFloor[]) {}
+class TicketRegistry {
+  private tickets = new Map<string, Ticket>();
+  private activeByVehicle = new Map<string, Ticket>();
+  private sequence = 0;
 
-  // Park vehicle and issue ticket
-  parkVehicle(vehicle: Vehicle): Ticket {
-    for (const floor of this.floors) {
-      const spot = floor.findAvailableSpot(vehicle);
+  constructor(private readonly prefix: string = 'TKT') {}
+
+  // Sequential IDs can't collide the way random strings can
+  nextTicketId(): string {
+    let ticketId: string;
+    do {
+      ticketId = `${this.prefix}-${String(++this.sequence).padStart(6, '0')}`;
+    } while (this.tickets.has(ticketId));
+    return ticketId;
+  }
 
-      if (spot) {
-        spot.parkVehicle(vehicle);
+  assertNotParked(vehicleNumber: string): void {
+    const active = this.activeByVehicle.get(vehicleNumber);
+    if (active) {
+      throw new ParkingLotError(
+        ParkingErrorCode.VEHICLE_ALREADY_PARKED,
+        `Vehicle ${vehicleNumber} is already parked (ticket ${active.ticketId})`,
+      );
+    }
+  }
 
-        // Simple ticket generation
-        const ticketId = Math.random().toString(36).substring(2);
+  register(ticket: Ticket): void {
+    this.assertNotParked(ticket.vehicle.vehicleNumber);
+    this.tickets.set(ticket.ticketId, ticket);
+    this.activeByVehicle.set(ticket.vehicle.vehicleNumber, ticket);
+  }
 
-        return new Ticket(vehicle, spot, ticketId);
-      }
+  findById(ticketId: string): Ticket | null {
+    return this.tickets.get(ticketId) ?? null;
+  }
+
+  // Every ticket ever issued, oldest first
+  all(): Ticket[] {
+    return [...this.tickets.values()];
+  }
+
+  // Ticket of a vehicle currently inside the lot
+  findActiveByVehicle(vehicleNumber: string): Ticket | null {
+    return this.activeByVehicle.get(vehicleNumber) ?? null;
+  }
+
+  /**
+   * Resolve what a driver presents into the ticket we issued.
+   * A look-alike object with a real ID is rejected as forged.
+   */
+  resolve(presented: Ticket | string): Ticket {
+    const ticketId =
+      typeof presented === 'string' ? presented : presented.ticketId;
+    const ticket = this.tickets.get(ticketId);
+
+    if (!ticket) {
+      throw new ParkingLotError(
+        ParkingErrorCode.TICKET_NOT_FOUND,
+        `Unknown ticket ${ticketId}`,
+      );
+    }
+    if (typeof presented !== 'string' && presented !== ticket) {
+      throw new ParkingLotError(
+        ParkingErrorCode.TICKET_FORGED,
+        `Ticket ${ticketId} was not issued by this lot`,
+      );
     }
+    return ticket;
+  }
+
+  markExited(ticket: Ticket): void {
+    if (this.activeByVehicle.get(ticket.vehicle.vehicleNumber) === ticket) {
+      this.activeByVehicle.delete(ticket.vehicle.vehicleNumber);
+    }
+  }
+}
+
+/***********************************************************************
+ * STEP 11: RESERVATIONS (Time-Window Booking)
+ *
+ * SPEAK:
+ * "A reservation books one spot for a [start, end) window.
+ *  Each spot keeps its own schedule, so an overlap check only looks
+ *  at that spot's bookings. A heap ordered by start time tells the lot
+ *  which windows have opened without scanning every booking."
+ ***********************************************************************/
+
+enum ReservationStatus {
+  BOOKED = 'BOOKED', // waiting for the driver
+  CHECKED_IN = 'CHECKED_IN',
+  NO_SHOW = 'NO_SHOW', // grace period passed, spot released
+  CANCELLED = 'CANCELLED',
+}
 
-    throw new Error('No available parking spot for this vehicle type');
+interface ReservationRequest {
+  vehicleType: VehicleType;
+  start: Date;
+  end: Date; // exclusive
+  spotId?: string; // a specific spot, otherwise the smallest that fits
+  kind?: SpotKind; // when no spotId is given, defaults to STANDARD
+}
+
+class Reservation {
+  status: ReservationStatus = ReservationStatus.BOOKED;
+  holdsSpot = false; // spot is set aside while the window is open
+
+  constructor(
+    public readonly reservationId: string,
+    public readonly vehicleType: VehicleType,
+    public readonly spot: ParkingSpot,
+    public readonly start: Date,
+    public readonly end: Date,
+    public readonly estimatedFee: number, // window priced at booking time
+  ) {}
+
+  // Live bookings still claim their window
+  isLive(): boolean {
+    return (
+      this.status === ReservationStatus.BOOKED ||
+      this.status === ReservationStatus.CHECKED_IN
+    );
   }
 
-  // Unpark vehicle using ticket
-  unparkVehicle(ticket: Ticket): void {
-    ticket.spot.removeVehicle();
+  overlaps(start: Date, end: Date): boolean {
+    return this.start < end && start < this.end;
   }
 }
 
-// SECTION : Console for Logging out
-// 1️⃣ Create parking spots
-const floor1Spots: ParkingSpot[] = [
-  new ParkingSpot('F1-B1', SpotType.BIKE),
-  new ParkingSpot('F1-C1', SpotType.COMPACT),
-  new ParkingSpot('F1-L1', SpotType.LARGE),
-];
+class ReservationBook {
+  private reservations = new Map<string, Reservation>();
+  private bySpot = new Map<ParkingSpot, Reservation[]>();
+  private notStarted = new MinHeap<Reservation>(
+    (a, b) => a.start.getTime() - b.start.getTime(),
+  );
+  private opened = new Set<Reservation>(); // window open, driver not in yet
+  private sequence = 0;
 
-const floor2Spots: ParkingSpot[] = [
-  new ParkingSpot('F2-C1', SpotType.COMPACT),
-  new ParkingSpot('F2-L1', SpotType.LARGE),
-];
+  // Skips IDs restored from a snapshot, like the ticket registry
+  nextReservationId(): string {
+    let reservationId: string;
+    do {
+      reservationId = `RSV-${String(++this.sequence).padStart(6, '0')}`;
+    } while (this.reservations.has(reservationId));
+    return reservationId;
+  }
 
-// 2️⃣ Create parking floors
-const floor1 = new ParkingFloor(1, floor1Spots);
-const floor2 = new ParkingFloor(2, floor2Spots);
+  get(reservationId: string): Reservation | null {
+    return this.reservations.get(reservationId) ?? null;
+  }
 
-// 3️⃣ Create parking lot with multiple floors
-const parkingLot = new ParkingLot([floor1, floor2]);
+  all(): Reservation[] {
+    return [...this.reservations.values()];
+  }
 
-// 4️⃣ Create vehicles
-const bike = new Bike('KA-01-BIKE-1234');
-const car = new Car('KA-01-CAR-5678');
-const truck = new Truck('KA-01-TRUCK-9999');
+  hasLiveBookings(spot: ParkingSpot): boolean {
+    return (this.bySpot.get(spot) ?? []).some((booking) => booking.isLive());
+  }
 
-// 5️⃣ Park vehicles
-console.log('---- Parking Vehicles ----');
+  isSpotFree(spot: ParkingSpot, start: Date, end: Date): boolean {
+    const bookings = this.bySpot.get(spot) ?? [];
+    return !bookings.some(
+      (booking) => booking.isLive() && booking.overlaps(start, end),
+    );
+  }
 
-const bikeTicket = parkingLot.parkVehicle(bike);
-console.log(
-  `Bike parked | Ticket: ${bikeTicket.ticketId} | Spot: ${bikeTicket.spot.spotId}`,
-);
+  add(reservation: Reservation): void {
+    this.reservations.set(reservation.reservationId, reservation);
+    const bookings = this.bySpot.get(reservation.spot) ?? [];
+    bookings.push(reservation);
+    this.bySpot.set(reservation.spot, bookings);
+    this.notStarted.push(reservation);
+  }
 
-const carTicket = parkingLot.parkVehicle(car);
-console.log(
-  `Car parked | Ticket: ${carTicket.ticketId} | Spot: ${carTicket.spot.spotId}`,
-);
+  // Move bookings whose window has started to the open set
+  openStarted(now: Date): void {
+    while (this.notStarted.size > 0 && this.notStarted.peek()!.start <= now) {
+      const reservation = this.notStarted.pop()!;
+      if (reservation.status === ReservationStatus.BOOKED) {
+        this.opened.add(reservation);
+      }
+    }
+  }
 
-const truckTicket = parkingLot.parkVehicle(truck);
-console.log(
-  `Truck parked | Ticket: ${truckTicket.ticketId} | Spot: ${truckTicket.spot.spotId}`,
-);
+  openReservations(): Reservation[] {
+    return [...this.opened];
+  }
+
+  // Booking is settled (checked in, no-show, cancelled); drop old history
+  close(reservation: Reservation, status: ReservationStatus, now: Date): void {
+    reservation.status = status;
+    this.opened.delete(reservation);
+
+    const bookings = this.bySpot.get(reservation.spot) ?? [];
+    this.bySpot.set(
+      reservation.spot,
+      bookings.filter((booking) => booking.isLive() && booking.end > now),
+    );
+  }
+}
+
+/***********************************************************************
+ * STEP 12: CLOCK (Dependency Injection)
+ *
+ * SPEAK:
+ * "Billing depends on time. If the lot reads the clock through
+ *  an interface, tests can jump to a Saturday night instantly."
+ ***********************************************************************/
+
+interface Clock {
+  now(): Date;
+}
+
+class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+class FakeClock implements Clock {
+  private current: number;
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advanceMinutes(minutes: number): void {
+    this.current += minutes * MS_PER_MINUTE;
+  }
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// Wall-clock time at the lot, to be read with the getUTC*() methods
+function lotLocalTime(at: Date, utcOffsetHours: number): Date {
+  return new Date(at.getTime() + utcOffsetHours * MS_PER_HOUR);
+}
+
+/***********************************************************************
+ * STEP 13: PRICING (Strategy + Decorator Patterns)
+ *
+ * SPEAK:
+ * "A strategy turns a stay into charge lines, one per billable hour.
+ *  Hourly strategies set the base rate; decorators like weekend/night
+ *  surcharges or a daily cap rewrite those lines. Because every line
+ *  keeps its time window, any decorator can stack on any strategy."
+ *
+ * RULES:
+ * - Every started hour is billable (minimum 1 hour)
+ * - Amounts are in currency units, rounded to 2 decimals on the receipt
+ ***********************************************************************/
+
+interface ParkingStay {
+  vehicleType: VehicleType;
+  spotType: SpotType;
+  entryTime: Date;
+  exitTime: Date;
+}
+
+interface ChargeLine {
+  description: string;
+  from: Date;
+  to: Date;
+  amount: number; // negative for discounts / caps
+}
+
+interface PricingStrategy {
+  calculate(stay: ParkingStay): ChargeLine[];
+}
+
+/**
+ * Hourly rates. A spot-type rate wins over a vehicle-type rate,
+ * so e.g. a car in a LARGE spot can pay the LARGE price.
+ */
+class RateCard {
+  constructor(
+    private readonly byVehicle: Partial<Record<VehicleType, number>>,
+    private readonly bySpot: Partial<Record<SpotType, number>> = {},
+  ) {}
+
+  rateFor(stay: ParkingStay): number {
+    const rate = this.bySpot[stay.spotType] ?? this.byVehicle[stay.vehicleType];
+    if (rate === undefined) {
+      throw new Error(
+        `No rate for ${stay.vehicleType} in a ${stay.spotType} spot`,
+      );
+    }
+    return rate;
+  }
+}
+
+/**
+ * Template method: subclasses only decide the rate of hour N
+ */
+abstract class HourlyPricingStrategy implements PricingStrategy {
+  calculate(stay: ParkingStay): ChargeLine[] {
+    const durationMs = stay.exitTime.getTime() - stay.entryTime.getTime();
+    const billableHours = Math.max(1, Math.ceil(durationMs / MS_PER_HOUR));
+    const lines: ChargeLine[] = [];
+
+    for (let hour = 0; hour < billableHours; hour++) {
+      const from = new Date(stay.entryTime.getTime() + hour * MS_PER_HOUR);
+      const to = new Date(from.getTime() + MS_PER_HOUR);
+      const { description, rate } = this.rateForHour(hour, stay);
+
+      lines.push({ description, from, to, amount: rate });
+    }
+    return lines;
+  }
+
+  protected abstract rateForHour(
+    hourIndex: number,
+    stay: ParkingStay,
+  ): { description: string; rate: number };
+}
+
+class FlatHourlyPricing extends HourlyPricingStrategy {
+  constructor(private readonly rates: RateCard) {
+    super();
+  }
+
+  protected rateForHour(
+    _hourIndex: number,
+    stay: ParkingStay,
+  ): { description: string; rate: number } {
+    return { description: 'Hourly', rate: this.rates.rateFor(stay) };
+  }
+}
+
+class TieredHourlyPricing extends HourlyPricingStrategy {
+  constructor(
+    private readonly firstHour: RateCard,
+    private readonly laterHours: RateCard,
+  ) {
+    super();
+  }
+
+  protected rateForHour(
+    hourIndex: number,
+    stay: ParkingStay,
+  ): { description: string; rate: number } {
+    return hourIndex === 0
+      ? { description: 'First hour', rate: this.firstHour.rateFor(stay) }
+      : { description: 'Additional hour', rate: this.laterHours.rateFor(stay) };
+  }
+}
+
+interface TimeOfDayRules {
+  weekendMultiplier: number; // e.g. 1.5 = +50% on Sat/Sun
+  nightMultiplier: number; // e.g. 0.5 = half price at night
+  nightStartHour?: number; // default 22
+  nightEndHour?: number; // default 6
+  utcOffsetHours?: number; // lot's local time zone, default UTC
+}
+
+/**
+ * Decorator: re-prices each hour that starts on a weekend or at night.
+ * Weekend wins if both apply, so rules never stack unexpectedly.
+ */
+class WeekendNightPricing implements PricingStrategy {
+  constructor(
+    private readonly inner: PricingStrategy,
+    private readonly rules: TimeOfDayRules,
+  ) {}
+
+  calculate(stay: ParkingStay): ChargeLine[] {
+    return this.inner.calculate(stay).map((line) => {
+      const local = lotLocalTime(line.from, this.rules.utcOffsetHours ?? 0);
+
+      if (this.isWeekend(local)) {
+        return this.adjust(line, 'weekend', this.rules.weekendMultiplier);
+      }
+      if (this.isNight(local)) {
+        return this.adjust(line, 'night', this.rules.nightMultiplier);
+      }
+      return line;
+    });
+  }
+
+  private isWeekend(local: Date): boolean {
+    const day = local.getUTCDay();
+    return day === 0 || day === 6;
+  }
+
+  private isNight(local: Date): boolean {
+    const hour = local.getUTCHours();
+    const start = this.rules.nightStartHour ?? 22;
+    const end = this.rules.nightEndHour ?? 6;
+    // Window may wrap past midnight (22 → 6)
+    return start > end
+      ? hour >= start || hour < end
+      : hour >= start && hour < end;
+  }
+
+  private adjust(
+    line: ChargeLine,
+    label: string,
+    multiplier: number,
+  ): ChargeLine {
+    return {
+      ...line,
+      description: `${line.description} (${label})`,
+      amount: line.amount * multiplier,
+    };
+  }
+}
+
+/**
+ * Decorator: no 24h window (counted from entry) costs more than the cap
+ */
+class DailyCapPricing implements PricingStrategy {
+  constructor(
+    private readonly inner: PricingStrategy,
+    private readonly dailyCap: number,
+  ) {}
+
+  calculate(stay: ParkingStay): ChargeLine[] {
+    const lines = this.inner.calculate(stay);
+    const totalsByDay = new Map<number, number>();
+
+    for (const line of lines) {
+      const day = this.dayIndex(stay, line.from);
+      totalsByDay.set(day, (totalsByDay.get(day) ?? 0) + line.amount);
+    }
+
+    const capLines: ChargeLine[] = [];
+    for (const [day, total] of totalsByDay) {
+      if (total <= this.dailyCap) continue;
+
+      const from = new Date(stay.entryTime.getTime() + day * MS_PER_DAY);
+      capLines.push({
+        description: `Daily cap (day ${day + 1})`,
+        from,
+        to: new Date(from.getTime() + MS_PER_DAY),
+        amount: this.dailyCap - total,
+      });
+    }
+    return [...lines, ...capLines];
+  }
+
+  private dayIndex(stay: ParkingStay, time: Date): number {
+    return Math.floor((time.getTime() - stay.entryTime.getTime()) / MS_PER_DAY);
+  }
+}
+
+const DEFAULT_PRICING: PricingStrategy = new FlatHourlyPricing(
+  new RateCard({
+    [VehicleType.BIKE]: 10,
+    [VehicleType.CAR]: 20,
+    [VehicleType.TRUCK]: 40,
+  }),
+);
+
+/***********************************************************************
+ * STEP 14: EV CHARGING (Metered Session)
+ *
+ * SPEAK:
+ * "Charging is billed by energy, not by time, so it gets its own
+ *  session and its own receipt line. The charger reports cumulative
+ *  meter readings; a reading the charger couldn't have delivered
+ *  is rejected."
+ ***********************************************************************/
+
+class ChargingSession {
+  constructor(
+    public readonly ticketId: string,
+    public readonly chargerKw: number,
+    public readonly startedAt: Date,
+    private deliveredKwh = 0, // non-zero only when restored from disk
+    private stoppedAt: Date | null = null,
+  ) {}
+
+  get energyKwh(): number {
+    return this.deliveredKwh;
+  }
+
+  getStoppedAt(): Date | null {
+    return this.stoppedAt;
+  }
+
+  isActive(): boolean {
+    return this.stoppedAt === null;
+  }
+
+  recordMeter(totalKwh: number, at: Date): void {
+    const hours = (at.getTime() - this.startedAt.getTime()) / MS_PER_HOUR;
+    const possible = this.chargerKw * hours;
+
+    if (!this.isActive()) {
+      this.reject(`charging for ticket ${this.ticketId} has stopped`);
+    }
+    if (totalKwh < this.deliveredKwh) {
+      this.reject('meter readings cannot go backwards');
+    }
+    if (totalKwh > possible) {
+      this.reject(
+        `${totalKwh} kWh is more than a ${this.chargerKw} kW charger ` +
+          `delivers in ${hours.toFixed(2)} h`,
+      );
+    }
+    this.deliveredKwh = totalKwh;
+  }
+
+  stop(at: Date): void {
+    if (this.stoppedAt === null) this.stoppedAt = at;
+  }
+
+  chargeLines(ratePerKwh: number, now: Date): ChargeLine[] {
+    if (this.deliveredKwh === 0) return [];
+    return [
+      {
+        description: `EV charging ${this.deliveredKwh} kWh`,
+        from: this.startedAt,
+        to: this.stoppedAt ?? now,
+        amount: roundMoney(this.deliveredKwh * ratePerKwh),
+      },
+    ];
+  }
+
+  private reject(reason: string): never {
+    throw new ParkingLotError(
+      ParkingErrorCode.INVALID_METER_READING,
+      `Meter reading rejected: ${reason}`,
+    );
+  }
+}
+
+/***********************************************************************
+ * STEP 15: RECEIPT (Value Object)
+ *
+ * SPEAK:
+ * "The receipt is what the driver sees: identical charge lines
+ *  are grouped, so 30 hours at the same rate is one line, not 30."
+ ***********************************************************************/
+
+interface ReceiptItem {
+  description: string;
+  quantity: number;
+  amount: number;
+}
+
+class Receipt {
+  public readonly items: ReceiptItem[];
+  public readonly total: number;
+
+  constructor(
+    public readonly ticketId: string,
+    public readonly vehicleNumber: string,
+    public readonly spotId: string,
+    public readonly entryTime: Date,
+    public readonly exitTime: Date,
+    lines: ChargeLine[],
+    public readonly payments: PaymentRecord[] = [],
+  ) {
+    this.items = groupChargeLines(lines);
+    this.total = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  }
+
+  get durationMinutes(): number {
+    return Math.round(
+      (this.exitTime.getTime() - this.entryTime.getTime()) / MS_PER_MINUTE,
+    );
+  }
+
+  format(): string {
+    const rows = this.items.map(
+      (item) =>
+        `  ${item.description} x${item.quantity}: ${item.amount.toFixed(2)}`,
+    );
+    const paid = this.payments.map((payment) => {
+      const refunded = payment.refunded
+        ? ` (refunded ${payment.refunded.toFixed(2)})`
+        : '';
+      return `  Paid by ${payment.method}: ${payment.amount.toFixed(2)}${refunded}`;
+    });
+    return [
+      `Receipt ${this.ticketId} | ${this.vehicleNumber} | ${this.spotId}`,
+      `  Duration: ${this.durationMinutes} min`,
+      ...rows,
+      `  TOTAL: ${this.total.toFixed(2)}`,
+      ...paid,
+    ].join('\n');
+  }
+}
+
+function groupChargeLines(lines: ChargeLine[]): ReceiptItem[] {
+  const grouped = new Map<string, ReceiptItem>();
+
+  for (const line of lines) {
+    const item = grouped.get(line.description) ?? {
+      description: line.description,
+      quantity: 0,
+      amount: 0,
+    };
+    item.quantity++;
+    item.amount = roundMoney(item.amount + line.amount);
+    grouped.set(line.description, item);
+  }
+  return [...grouped.values()];
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/***********************************************************************
+ * STEP 16: PAYMENTS (Adapter + Retry)
+ *
+ * SPEAK:
+ * "Cash, card and UPI/wallet all hide behind one PaymentGateway.
+ *  The processor owns the hard parts: timeouts, retries that reuse
+ *  an idempotency key so a retry never charges twice, and refunds."
+ ***********************************************************************/
+
+enum PaymentMethod {
+  CASH = 'CASH',
+  CARD = 'CARD',
+  UPI = 'UPI',
+  WALLET = 'WALLET',
+}
+
+enum GatewayStatus {
+  APPROVED = 'APPROVED',
+  DECLINED = 'DECLINED',
+}
+
+interface ChargeRequest {
+  idempotencyKey: string; // same key on every retry of one payment
+  ticketId: string;
+  method: PaymentMethod;
+  amount: number;
+}
+
+interface RefundRequest {
+  idempotencyKey: string;
+  transactionId: string; // the charge being refunded
+  amount: number;
+}
+
+interface GatewayResponse {
+  status: GatewayStatus;
+  transactionId: string;
+  reason?: string; // why it was declined
+}
+
+// A gateway may also reject (network error) or never answer at all
+interface PaymentGateway {
+  charge(request: ChargeRequest): Promise<GatewayResponse>;
+  refund(request: RefundRequest): Promise<GatewayResponse>;
+}
+
+// Cash is counted at the booth: it never declines or times out
+class CashDrawer implements PaymentGateway {
+  private cash = 0;
+  private sequence = 0;
+
+  get cashOnHand(): number {
+    return this.cash;
+  }
+
+  async charge(request: ChargeRequest): Promise<GatewayResponse> {
+    this.cash = roundMoney(this.cash + request.amount);
+    return this.approve();
+  }
+
+  async refund(request: RefundRequest): Promise<GatewayResponse> {
+    if (request.amount > this.cash) {
+      return {
+        status: GatewayStatus.DECLINED,
+        transactionId: request.transactionId,
+        reason: 'Not enough cash in the drawer',
+      };
+    }
+    this.cash = roundMoney(this.cash - request.amount);
+    return this.approve();
+  }
+
+  private approve(): GatewayResponse {
+    return {
+      status: GatewayStatus.APPROVED,
+      transactionId: `CASH-${++this.sequence}`,
+    };
+  }
+}
+
+enum MockOutcome {
+  APPROVE = 'APPROVE',
+  DECLINE = 'DECLINE',
+  TIMEOUT = 'TIMEOUT', // the call never answers
+}
+
+/**
+ * In-memory stand-in for a card/UPI/wallet provider.
+ * Outcomes are scripted per call; once the script runs out,
+ * every call is approved. Like a real provider, it replays the
+ * stored answer when it sees an idempotency key again.
+ */
+class MockPaymentGateway implements PaymentGateway {
+  private script: MockOutcome[] = [];
+  private answered = new Map<string, GatewayResponse>();
+  private charged = new Map<string, { amount: number; refunded: number }>();
+  private sequence = 0;
+  private attempts = 0;
+
+  constructor(private readonly prefix: string = 'TXN') {}
+
+  get chargeAttempts(): number {
+    return this.attempts;
+  }
+
+  enqueue(...outcomes: MockOutcome[]): void {
+    this.script.push(...outcomes);
+  }
+
+  charge(request: ChargeRequest): Promise<GatewayResponse> {
+    this.attempts++;
+    return this.respond(request.idempotencyKey, () => {
+      const transactionId = this.nextTransactionId();
+      this.charged.set(transactionId, { amount: request.amount, refunded: 0 });
+      return { status: GatewayStatus.APPROVED, transactionId };
+    });
+  }
+
+  refund(request: RefundRequest): Promise<GatewayResponse> {
+    return this.respond(request.idempotencyKey, () => {
+      const charge = this.charged.get(request.transactionId);
+      if (!charge || charge.refunded + request.amount > charge.amount) {
+        return {
+          status: GatewayStatus.DECLINED,
+          transactionId: request.transactionId,
+          reason: 'Refund exceeds the original charge',
+        };
+      }
+      charge.refunded = roundMoney(charge.refunded + request.amount);
+      return {
+        status: GatewayStatus.APPROVED,
+        transactionId: this.nextTransactionId(),
+      };
+    });
+  }
+
+  private respond(
+    idempotencyKey: string,
+    approve: () => GatewayResponse,
+  ): Promise<GatewayResponse> {
+    const previous = this.answered.get(idempotencyKey);
+    if (previous) return Promise.resolve(previous);
+
+    const outcome = this.script.shift() ?? MockOutcome.APPROVE;
+    if (outcome === MockOutcome.TIMEOUT) {
+      return new Promise<GatewayResponse>(() => {});
+    }
+
+    const response: GatewayResponse =
+      outcome === MockOutcome.DECLINE
+        ? {
+            status: GatewayStatus.DECLINED,
+            transactionId: this.nextTransactionId(),
+            reason: 'Declined by issuer',
+          }
+        : approve();
+    this.answered.set(idempotencyKey, response);
+    return Promise.resolve(response);
+  }
+
+  private nextTransactionId(): string {
+    return `${this.prefix}-${++this.sequence}`;
+  }
+}
+
+interface PaymentRecord {
+  paymentId: string;
+  ticketId: string;
+  method: PaymentMethod;
+  amount: number;
+  transactionId: string;
+  paidAt: Date;
+  refunded: number; // grows as refunds are issued
+}
+
+interface PaymentProcessorOptions {
+  maxAttempts?: number; // per payment or refund, defaults to 3
+  timeoutMs?: number; // per attempt, defaults to 5000
+}
+
+class PaymentProcessor {
+  private readonly maxAttempts: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly gateways: Partial<Record<PaymentMethod, PaymentGateway>>,
+    options: PaymentProcessorOptions = {},
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+  }
+
+  async charge(
+    ticketId: string,
+    method: PaymentMethod,
+    amount: number,
+    paidAt: Date,
+  ): Promise<PaymentRecord> {
+    const gateway = this.gatewayFor(method);
+    const request: ChargeRequest = {
+      // A counter would restart at 1 after a restart and replay old keys
+      idempotencyKey: `PAY-${randomUUID()}`,
+      ticketId,
+      method,
+      amount,
+    };
+
+    const response = await this.withRetries(
+      `${method} payment for ${ticketId}`,
+      () => gateway.charge(request),
+    );
+
+    return {
+      paymentId: request.idempotencyKey,
+      ticketId,
+      method,
+      amount,
+      transactionId: response.transactionId,
+      paidAt,
+      refunded: 0,
+    };
+  }
+
+  async refund(payment: PaymentRecord, amount: number): Promise<void> {
+    const gateway = this.gatewayFor(payment.method);
+    const request: RefundRequest = {
+      idempotencyKey: `REF-${randomUUID()}`,
+      transactionId: payment.transactionId,
+      amount,
+    };
+
+    await this.withRetries(`Refund of ${payment.paymentId}`, () =>
+      gateway.refund(request),
+    );
+    payment.refunded = roundMoney(payment.refunded + amount);
+  }
+
+  private gatewayFor(method: PaymentMethod): PaymentGateway {
+    const gateway = this.gateways[method];
+    if (!gateway) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_PAYMENT,
+        `${method} payments are not accepted here`,
+      );
+    }
+    return gateway;
+  }
+
+  // Timeouts and errors are retried; a decline is an answer, not a failure
+  private async withRetries(
+    label: string,
+    call: () => Promise<GatewayResponse>,
+  ): Promise<GatewayResponse> {
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      let response: GatewayResponse;
+      try {
+        response = await withTimeout(call(), this.timeoutMs);
+      } catch (err) {
+        lastError = (err as Error).message;
+        continue;
+      }
+
+      if (response.status === GatewayStatus.DECLINED) {
+        throw new ParkingLotError(
+          ParkingErrorCode.PAYMENT_DECLINED,
+          `${label} declined: ${response.reason ?? 'no reason given'}`,
+        );
+      }
+      return response;
+    }
+
+    throw new ParkingLotError(
+      ParkingErrorCode.PAYMENT_FAILED,
+      `${label} failed after ${this.maxAttempts} attempts: ${lastError}`,
+    );
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`gateway timed out after ${ms}ms`)),
+      ms,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// What a ticket owes right now
+interface Bill {
+  ticketId: string;
+  lines: ChargeLine[];
+  total: number;
+  paid: number; // net of refunds
+  balance: number;
+}
+
+// Everything charged and paid against one ticket
+class TicketAccount {
+  readonly surcharges: ChargeLine[] = [];
+  readonly payments: PaymentRecord[] = [];
+  pending = 0; // payments in flight, so two kiosks can't both collect
+  settledLines: ChargeLine[] | null = null; // frozen once fully paid
+  reservation: Reservation | null = null; // booked window is billed in full
+  charging: ChargingSession | null = null;
+  pass: ParkingPass | null = null; // applied at entry
+
+  get netPaid(): number {
+    return roundMoney(
+      this.payments.reduce(
+        (sum, payment) => sum + payment.amount - payment.refunded,
+        0,
+      ),
+    );
+  }
+}
+
+/***********************************************************************
+ * STEP 17: MEMBERSHIPS (Passes for Registered Vehicles)
+ *
+ * SPEAK:
+ * "A pass belongs to a plate, not to a ticket. At entry the lot asks
+ *  the registry whether this plate has a pass that covers this entry;
+ *  if so the entry is counted and the discount rides on the ticket.
+ *  A pass that doesn't cover the entry (Saturday on a weekday pass,
+ *  bundle used up) just means the driver pays like everyone else.
+ *  Expiry notices are scheduled in a heap when the pass is issued,
+ *  so the lot's housekeeping tick only looks at notices that are due."
+ *
+ * RULES:
+ * - A 100% discount means no payment; the stay settles at exit
+ * - The discount covers parking time, not charging or penalties
+ * - A vehicle's passes can't overlap; a renewal starts when the old ends
+ * - A reserved floor keeps one free spot of the holder's best-fit type
+ *   back from everyone else for each pass that reserves it, while that
+ *   vehicle is away and the pass would cover its entry
+ * - Those counts are kept per floor and spot type as holders come and
+ *   go, and rechecked when a pass starts, ends or turns a (lot) day
+ ***********************************************************************/
+
+enum PassType {
+  MONTHLY_UNLIMITED = 'MONTHLY_UNLIMITED',
+  WEEKDAY_ONLY = 'WEEKDAY_ONLY', // Monday to Friday entries
+  ENTRY_BUNDLE = 'ENTRY_BUNDLE', // N entries per calendar month
+}
+
+interface PassRequest {
+  vehicleNumber: string;
+  vehicleType: VehicleType; // sets the spot type a reserved floor keeps
+  type: PassType;
+  validFrom: Date;
+  validUntil: Date; // exclusive
+  discountPercent?: number; // defaults to 100: no payment at exit
+  entriesPerMonth?: number; // ENTRY_BUNDLE only
+  reservedFloors?: number[]; // tried first; a spot there is kept back
+}
+
+class ParkingPass {
+  private readonly entriesByMonth: Map<string, number>;
+
+  constructor(
+    public readonly passId: string,
+    public readonly vehicleNumber: string,
+    public readonly vehicleType: VehicleType,
+    public readonly type: PassType,
+    public readonly validFrom: Date,
+    public readonly validUntil: Date,
+    public readonly discountPercent: number,
+    public readonly entriesPerMonth: number | null,
+    public readonly reservedFloors: number[],
+    entriesByMonth: Record<string, number> = {}, // restored counts
+    private readonly utcOffsetHours = 0, // lot's time zone, for days/months
+  ) {
+    this.entriesByMonth = new Map(Object.entries(entriesByMonth));
+  }
+
+  isValidAt(at: Date): boolean {
+    return this.validFrom <= at && at < this.validUntil;
+  }
+
+  // Calendar month at the lot, e.g. 2024-01
+  monthOf(at: Date): string {
+    return monthKey(lotLocalTime(at, this.utcOffsetHours));
+  }
+
+  entriesUsed(at: Date): number {
+    return this.entriesByMonth.get(this.monthOf(at)) ?? 0;
+  }
+
+  coversEntry(at: Date): boolean {
+    if (!this.isValidAt(at)) return false;
+    switch (this.type) {
+      case PassType.MONTHLY_UNLIMITED:
+        return true;
+      case PassType.WEEKDAY_ONLY: {
+        const day = lotLocalTime(at, this.utcOffsetHours).getUTCDay();
+        return day >= 1 && day <= 5;
+      }
+      case PassType.ENTRY_BUNDLE:
+        return this.entriesUsed(at) < (this.entriesPerMonth ?? 0);
+    }
+  }
+
+  // Next time coversEntry can change by the clock alone, if ever
+  nextCoverChange(after: Date): Date | null {
+    if (after < this.validFrom) return this.validFrom;
+    if (after >= this.validUntil) return null;
+    if (this.type === PassType.MONTHLY_UNLIMITED) return this.validUntil;
+
+    // Weekdays and bundle months turn over at the lot's midnight
+    const local = lotLocalTime(after, this.utcOffsetHours);
+    const midnight =
+      Date.UTC(
+        local.getUTCFullYear(),
+        local.getUTCMonth(),
+        local.getUTCDate() + 1,
+      ) -
+      this.utcOffsetHours * MS_PER_HOUR;
+    return new Date(Math.min(midnight, this.validUntil.getTime()));
+  }
+
+  recordEntry(at: Date): void {
+    this.entriesByMonth.set(this.monthOf(at), this.entriesUsed(at) + 1);
+  }
+
+  // Entries used per month, e.g. { '2024-01': 2 }
+  entryCounts(): Record<string, number> {
+    return Object.fromEntries(this.entriesByMonth);
+  }
+}
+
+enum PassNoticeType {
+  EXPIRING_SOON = 'EXPIRING_SOON',
+  EXPIRED = 'EXPIRED',
+}
+
+interface PassNotice {
+  type: PassNoticeType;
+  passId: string;
+  vehicleNumber: string;
+  validUntil: Date;
+  daysLeft: number;
+}
+
+// SMS, email, app push: the registry doesn't care which
+interface PassNotifier {
+  notify(notice: PassNotice): void;
+}
+
+class ConsolePassNotifier implements PassNotifier {
+  notify(notice: PassNotice): void {
+    console.log(
+      `[${notice.type}] pass ${notice.passId} for ${notice.vehicleNumber}: ` +
+        `${notice.daysLeft} day(s) left`,
+    );
+  }
+}
+
+interface MembershipOptions {
+  notifier?: PassNotifier; // defaults to the console
+  noticeDays?: number; // warn this many days ahead, defaults to 7
+  utcOffsetHours?: number; // lot's local time zone, default UTC (as pricing)
+}
+
+interface ScheduledNotice {
+  at: Date;
+  type: PassNoticeType;
+  pass: ParkingPass;
+}
+
+// When a pass's holdback must be looked at again
+interface HoldbackCheck {
+  at: Date;
+  pass: ParkingPass;
+}
+
+class MembershipRegistry {
+  private readonly notifier: PassNotifier;
+  private readonly noticeDays: number;
+  private readonly utcOffsetHours: number;
+  private readonly passes = new Map<string, ParkingPass>();
+  private readonly byVehicle = new Map<string, ParkingPass[]>();
+  private readonly issueListeners: ((pass: ParkingPass) => void)[] = [];
+  private notices = newScheduleHeap<ScheduledNotice>();
+  private sequence = 0;
+  private readonly inside = new Set<string>(); // vehicles parked now
+  private readonly holding = new Set<ParkingPass>(); // counted below
+  private readonly holdbacks = new Map<number, Map<SpotType, number>>();
+  private holdbackChecks = newScheduleHeap<HoldbackCheck>();
+
+  constructor(options: MembershipOptions = {}) {
+    this.notifier = options.notifier ?? new ConsolePassNotifier();
+    this.noticeDays = options.noticeDays ?? 7;
+    this.utcOffsetHours = options.utcOffsetHours ?? 0;
+  }
+
+  issue(request: PassRequest): ParkingPass {
+    const { vehicleNumber, type, validFrom, validUntil } = request;
+    const discountPercent = request.discountPercent ?? 100;
+    const entriesPerMonth = request.entriesPerMonth ?? null;
+
+    if (!(validFrom < validUntil)) {
+      this.reject('a pass must end after it starts');
+    }
+    if (!(discountPercent > 0 && discountPercent <= 100)) {
+      this.reject('discount must be more than 0% and at most 100%');
+    }
+    if (
+      (type === PassType.ENTRY_BUNDLE) !==
+      (entriesPerMonth !== null && entriesPerMonth > 0)
+    ) {
+      this.reject('entries per month is required for (and only for) bundles');
+    }
+    const existing = this.byVehicle.get(vehicleNumber) ?? [];
+    if (
+      existing.some((p) => p.validFrom < validUntil && validFrom < p.validUntil)
+    ) {
+      this.reject(
+        `vehicle ${vehicleNumber} already has a pass for that period`,
+      );
+    }
+
+    const pass = new ParkingPass(
+      `PASS-${String(++this.sequence).padStart(6, '0')}`,
+      vehicleNumber,
+      request.vehicleType,
+      type,
+      validFrom,
+      validUntil,
+      discountPercent,
+      entriesPerMonth,
+      request.reservedFloors ?? [],
+      {},
+      this.utcOffsetHours,
+    );
+    this.add(pass, null);
+    this.issueListeners.forEach((listener) => listener(pass));
+    return pass;
+  }
+
+  // The lot journals every pass issued after it was created
+  onIssue(listener: (pass: ParkingPass) => void): void {
+    this.issueListeners.push(listener);
+  }
+
+  all(): ParkingPass[] {
+    return [...this.passes.values()];
+  }
+
+  /**
+   * Replace every pass with saved ones (lot recovery). Notices due
+   * before `now` are not sent again. The lot reports who is inside
+   * again afterwards.
+   */
+  restore(saved: PassState[], now: Date): void {
+    const passes = saved.map(
+      (pass) =>
+        new ParkingPass(
+          pass.passId,
+          pass.vehicleNumber,
+          pass.vehicleType,
+          pass.type,
+          pass.validFrom,
+          pass.validUntil,
+          pass.discountPercent,
+          pass.entriesPerMonth,
+          pass.reservedFloors,
+          pass.entriesByMonth,
+          this.utcOffsetHours,
+        ),
+    );
+    this.passes.clear();
+    this.byVehicle.clear();
+    this.notices = newScheduleHeap<ScheduledNotice>();
+    this.inside.clear();
+    this.holding.clear();
+    this.holdbacks.clear();
+    this.holdbackChecks = newScheduleHeap<HoldbackCheck>();
+    for (const pass of passes) this.add(pass, now);
+    this.sequence = Math.max(
+      0,
+      ...passes.map((pass) => Number(pass.passId.replace('PASS-', ''))),
+    );
+  }
+
+  findById(passId: string): ParkingPass | null {
+    return this.passes.get(passId) ?? null;
+  }
+
+  // The pass that would cover an entry now, without using it up
+  passForEntry(vehicleNumber: string, at: Date): ParkingPass | null {
+    const passes = this.byVehicle.get(vehicleNumber) ?? [];
+    return passes.find((pass) => pass.coversEntry(at)) ?? null;
+  }
+
+  // Free spots of one type a floor keeps back for members who are away
+  heldBack(floorNumber: number, type: SpotType): number {
+    return this.holdbacks.get(floorNumber)?.get(type) ?? 0;
+  }
+
+  // The lot reports every entry and exit of every vehicle
+  setInside(vehicleNumber: string, inside: boolean, at: Date): void {
+    if (inside) this.inside.add(vehicleNumber);
+    else this.inside.delete(vehicleNumber);
+    for (const pass of this.byVehicle.get(vehicleNumber) ?? []) {
+      this.updateHoldback(pass, at);
+    }
+  }
+
+  // Recheck the passes that started, ended or turned a day since the last call
+  updateHoldbacks(now: Date): void {
+    while (
+      this.holdbackChecks.size > 0 &&
+      this.holdbackChecks.peek()!.at <= now
+    ) {
+      const { pass } = this.holdbackChecks.pop()!;
+      this.updateHoldback(pass, now);
+      const next = pass.nextCoverChange(now);
+      if (next) this.holdbackChecks.push({ at: next, pass });
+    }
+  }
+
+  // Count the entry against the vehicle's pass, if one covers it
+  admit(vehicleNumber: string, at: Date): ParkingPass | null {
+    const pass = this.passForEntry(vehicleNumber, at);
+    pass?.recordEntry(at);
+    return pass;
+  }
+
+  // Each notice is sent once; a renewed pass gets no "expiring" warning
+  sendExpiryNotices(now: Date): void {
+    while (this.notices.size > 0 && this.notices.peek()!.at <= now) {
+      const { type, pass } = this.notices.pop()!;
+      const renewed = (this.byVehicle.get(pass.vehicleNumber) ?? []).some(
+        (other) => other.validFrom.getTime() === pass.validUntil.getTime(),
+      );
+      if (renewed && type === PassNoticeType.EXPIRING_SOON) continue;
+
+      this.notifier.notify({
+        type,
+        passId: pass.passId,
+        vehicleNumber: pass.vehicleNumber,
+        validUntil: pass.validUntil,
+        daysLeft: Math.max(
+          0,
+          Math.ceil((pass.validUntil.getTime() - now.getTime()) / MS_PER_DAY),
+        ),
+      });
+    }
+  }
+
+  // Index the pass and schedule its notices (only those after `from`)
+  private add(pass: ParkingPass, from: Date | null): void {
+    const { vehicleNumber, validUntil } = pass;
+    this.passes.set(pass.passId, pass);
+    this.byVehicle.set(vehicleNumber, [
+      ...(this.byVehicle.get(vehicleNumber) ?? []),
+      pass,
+    ]);
+
+    const notices: ScheduledNotice[] = [
+      {
+        at: new Date(validUntil.getTime() - this.noticeDays * MS_PER_DAY),
+        type: PassNoticeType.EXPIRING_SOON,
+        pass,
+      },
+      { at: validUntil, type: PassNoticeType.EXPIRED, pass },
+    ];
+    for (const notice of notices) {
+      if (!from || notice.at > from) this.notices.push(notice);
+    }
+    if (pass.reservedFloors.length > 0) {
+      this.holdbackChecks.push({ at: pass.validFrom, pass });
+    }
+  }
+
+  // Hold one spot on each reserved floor while the pass holder is away
+  private updateHoldback(pass: ParkingPass, at: Date): void {
+    const holds = !this.inside.has(pass.vehicleNumber) && pass.coversEntry(at);
+    if (pass.reservedFloors.length === 0 || holds === this.holding.has(pass)) {
+      return;
+    }
+    if (holds) this.holding.add(pass);
+    else this.holding.delete(pass);
+
+    const type = COMPATIBLE_SPOT_TYPES[pass.vehicleType][0];
+    for (const floorNumber of pass.reservedFloors) {
+      const byType = this.holdbacks.get(floorNumber) ?? new Map();
+      byType.set(type, (byType.get(type) ?? 0) + (holds ? 1 : -1));
+      this.holdbacks.set(floorNumber, byType);
+    }
+  }
+
+  private reject(reason: string): never {
+    throw new ParkingLotError(
+      ParkingErrorCode.INVALID_PASS,
+      `Pass rejected: ${reason}`,
+    );
+  }
+}
+
+function newScheduleHeap<T extends { at: Date }>(): MinHeap<T> {
+  return new MinHeap<T>((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Negative line that takes the pass discount off the parking time
+function passDiscountLine(
+  pass: ParkingPass,
+  parking: ChargeLine[],
+): ChargeLine {
+  const subtotal = parking.reduce((sum, line) => sum + line.amount, 0);
+  return {
+    description: `${pass.type} pass -${pass.discountPercent}%`,
+    from: parking[0]?.from ?? pass.validFrom,
+    to: parking[parking.length - 1]?.to ?? pass.validFrom,
+    amount: -roundMoney((subtotal * pass.discountPercent) / 100),
+  };
+}
+
+// Calendar month of a lot-local time (see lotLocalTime), e.g. 2024-01
+function monthKey(local: Date): string {
+  const month = String(local.getUTCMonth() + 1).padStart(2, '0');
+  return `${local.getUTCFullYear()}-${month}`;
+}
+
+/***********************************************************************
+ * STEP 18: LOT EVENTS (Observer Pattern)
+ *
+ * SPEAK:
+ * "The lot announces every change to a spot. Boards, gates and
+ *  anything added later subscribe, instead of polling every spot."
+ ***********************************************************************/
+
+enum LotEventType {
+  SPOT_HELD = 'SPOT_HELD',
+  HOLD_RELEASED = 'HOLD_RELEASED',
+  VEHICLE_PARKED = 'VEHICLE_PARKED',
+  VEHICLE_UNPARKED = 'VEHICLE_UNPARKED',
+  SPOT_ADDED = 'SPOT_ADDED',
+  SPOT_REMOVED = 'SPOT_REMOVED',
+  SPOT_CLOSED = 'SPOT_CLOSED', // maintenance started
+  SPOT_REOPENED = 'SPOT_REOPENED', // maintenance ended
+}
+
+interface LotEvent {
+  type: LotEventType;
+  time: Date;
+  floorNumber: number;
+  spotId: string;
+  spotType: SpotType;
+  vehicleNumber?: string; // unknown while a reservation holds the spot
+  ticketId?: string; // on park and unpark
+  reservationId?: string;
+}
+
+interface LotObserver {
+  onLotEvent(event: LotEvent): void;
+}
+
+// Free spots of each type on one floor
+interface FloorAvailability {
+  floorNumber: number;
+  free: Record<SpotType, number>;
+}
+
+/***********************************************************************
+ * STEP 19: PARKING LOT (Orchestrator)
+ *
+ * SPEAK:
+ * "ParkingLot is the entry point.
+ *  It orchestrates the flow and delegates responsibilities."
+ ***********************************************************************/
+
+interface ParkingLotOptions {
+  pricing?: PricingStrategy; // defaults to flat hourly rates
+  clock?: Clock; // defaults to the system clock
+  allocation?: SpotAllocationStrategy; // defaults to best fit
+  lostTicketPenalty?: number; // added to the fee, defaults to 200
+  payments?: PaymentProcessor; // defaults to cash only
+  exitGraceMinutes?: number; // time to leave after paying, defaults to 15
+  holdTimeoutMs?: number; // unconfirmed spot holds expire, defaults to 60s
+  reservationGraceMinutes?: number; // no-show release, defaults to 15
+  chargingRatePerKwh?: number; // EV charging, defaults to 15
+  journal?: LotJournal; // set by ParkingLot.open
+  memberships?: MembershipRegistry; // pass holders, defaults to none
+}
+
+// A spot set aside for a vehicle until its gate confirms it
+interface SpotHold {
+  holdId: string;
+  vehicle: Vehicle;
+  spot: ParkingSpot;
+  expiresAt: Date;
+}
+
+const LOST_TICKET_PENALTY = 'Lost ticket penalty';
+
+class ParkingLot {
+  private readonly pricing: PricingStrategy;
+  private readonly clock: Clock;
+  private readonly allocation: SpotAllocationStrategy;
+  private readonly lostTicketPenalty: number;
+  private readonly payments: PaymentProcessor;
+  private readonly exitGraceMinutes: number;
+  private readonly holdTimeoutMs: number;
+  private readonly tickets = new TicketRegistry();
+  private readonly accounts = new Map<string, TicketAccount>();
+  // Insertion order is expiry order, since every hold gets the same timeout
+  private readonly holds = new Map<string, SpotHold>();
+  private readonly holdsByVehicle = new Map<string, SpotHold>();
+  private holdSequence = 0;
+  private readonly observers = new Set<LotObserver>();
+  private readonly reservationGraceMinutes: number;
+  private readonly reservations = new ReservationBook();
+  private readonly chargingRatePerKwh: number;
+  private readonly journal: LotJournal | null;
+  private readonly sessions: SessionRecord[] = []; // completed stays
+  private readonly memberships: MembershipRegistry | null;
+
+  constructor(
+    private readonly floors: ParkingFloor[],
+    options: ParkingLotOptions = {},
+  ) {
+    this.pricing = options.pricing ?? DEFAULT_PRICING;
+    this.clock = options.clock ?? new SystemClock();
+    this.allocation = options.allocation ?? new BestFitAllocation();
+    this.lostTicketPenalty = options.lostTicketPenalty ?? 200;
+    this.payments =
+      options.payments ??
+      new PaymentProcessor({ [PaymentMethod.CASH]: new CashDrawer() });
+    this.exitGraceMinutes = options.exitGraceMinutes ?? 15;
+    this.holdTimeoutMs = options.holdTimeoutMs ?? 60 * 1000;
+    this.reservationGraceMinutes = options.reservationGraceMinutes ?? 15;
+    this.chargingRatePerKwh = options.chargingRatePerKwh ?? 15;
+    this.journal = options.journal ?? null;
+    this.memberships = options.memberships ?? null;
+    this.memberships?.onIssue((pass) =>
+      this.record({
+        type: JournalEntryType.PASS_ISSUED,
+        pass: passState(pass),
+      }),
+    );
+  }
+
+  /**
+   * A lot that journals every change. If the journal already holds a
+   * lot, it is rebuilt from there and initialLayout is not called.
+   *
+   * SPEAK:
+   * "Recovery is the latest snapshot plus the journal entries written
+   *  after it. A fresh snapshot is taken straight away, so the next
+   *  start doesn't replay the same entries again."
+   */
+  static open(
+    journal: LotJournal,
+    initialLayout: () => ParkingFloor[],
+    options: ParkingLotOptions = {},
+  ): ParkingLot {
+    const saved = journal.load();
+    const lot = saved.snapshot
+      ? ParkingLot.fromState(
+          replayJournal(saved.snapshot.state, saved.entries),
+          { ...options, journal },
+        )
+      : new ParkingLot(initialLayout(), { ...options, journal });
+
+    journal.writeSnapshot(lot.exportState());
+    return lot;
+  }
+
+  // Park vehicle and issue ticket (single caller: hold and confirm at once)
+  parkVehicle(vehicle: Vehicle): Ticket {
+    return this.confirmSpot(this.reserveSpot(vehicle).holdId);
+  }
+
+  /**
+   * Step 1 of a gate entry: pick a spot and hold it.
+   *
+   * SPEAK:
+   * "Choosing and occupying used to be one step. With several gates,
+   *  a gate can wait on the driver in between, so the chosen spot is
+   *  held at once. Allocation only sees free spots, so no other gate
+   *  can be given it."
+   */
+  reserveSpot(vehicle: Vehicle): SpotHold {
+    this.runHousekeeping();
+    this.assertNotInside(vehicle);
+
+    const spot = this.selectSpot(vehicle);
+    if (!spot) {
+      throw new ParkingLotError(
+        ParkingErrorCode.NO_SPOT_AVAILABLE,
+        'No available parking spot for this vehicle type',
+      );
+    }
+
+    const hold: SpotHold = {
+      holdId: `HOLD-${++this.holdSequence}`,
+      vehicle,
+      spot,
+      expiresAt: new Date(this.clock.now().getTime() + this.holdTimeoutMs),
+    };
+    this.floorOf(spot).holdSpot(spot, hold.holdId);
+    this.holds.set(hold.holdId, hold);
+    this.holdsByVehicle.set(vehicle.vehicleNumber, hold);
+    this.publish(LotEventType.SPOT_HELD, spot, { vehicle });
+
+    return hold;
+  }
+
+  // Step 2: the driver took the ticket, so park in the held spot
+  confirmSpot(holdId: string): Ticket {
+    this.runHousekeeping();
+
+    const hold = this.holds.get(holdId);
+    if (!hold) {
+      throw new ParkingLotError(
+        ParkingErrorCode.HOLD_NOT_FOUND,
+        `Spot hold ${holdId} is unknown or has expired`,
+      );
+    }
+    this.forgetHold(hold);
+
+    return this.issueTicket(hold.vehicle, hold.spot, holdId, null);
+  }
+
+  // The driver turned around: give the spot back
+  cancelHold(holdId: string): void {
+    const hold = this.holds.get(holdId);
+    if (!hold) return;
+
+    this.forgetHold(hold);
+    this.floorOf(hold.spot).releaseHold(hold.spot, holdId);
+    this.publishFreed(LotEventType.HOLD_RELEASED, hold.spot, {
+      vehicle: hold.vehicle,
+    });
+  }
+
+  /**
+   * Book a spot ahead of time. The window is priced with the lot's
+   * own pricing strategy, and the driver pays for all of it.
+   */
+  reserve(request: ReservationRequest): Reservation {
+    this.runHousekeeping();
+
+    const { vehicleType, start, end } = request;
+    const now = this.clock.now();
+    if (!(start < end) || end <= now) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_RESERVATION,
+        'A reservation needs a window that ends after it starts, in the future',
+      );
+    }
+
+    const spot = request.spotId
+      ? this.requestedSpot(request.spotId, vehicleType, start, end)
+      : this.findReservableSpot(
+          vehicleType,
+          request.kind ?? SpotKind.STANDARD,
+          start,
+          end,
+          now,
+        );
+
+    const estimatedFee = roundMoney(
+      this.pricing
+        .calculate({
+          vehicleType,
+          spotType: spot.type,
+          entryTime: start,
+          exitTime: end,
+        })
+        .reduce((sum, line) => sum + line.amount, 0),
+    );
+    const reservation = new Reservation(
+      this.reservations.nextReservationId(),
+      vehicleType,
+      spot,
+      start,
+      end,
+      estimatedFee,
+    );
+    this.reservations.add(reservation);
+    this.record({
+      type: JournalEntryType.RESERVATION_BOOKED,
+      reservation: reservationState(reservation),
+    });
+
+    // A window that is already open takes the spot right away
+    this.runHousekeeping();
+    return reservation;
+  }
+
+  // The driver arrived: park in the reserved spot (or any fitting spot
+  // if a walk-in who came before the window opened hasn't left yet)
+  checkIn(reservationId: string, vehicle: Vehicle): Ticket {
+    this.runHousekeeping();
+
+    const reservation = this.findReservation(reservationId);
+    if (!reservation) {
+      throw new ParkingLotError(
+        ParkingErrorCode.RESERVATION_NOT_FOUND,
+        `Unknown reservation ${reservationId}`,
+      );
+    }
+    if (reservation.status !== ReservationStatus.BOOKED) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_RESERVATION,
+        `Reservation ${reservationId} is ${reservation.status}`,
+      );
+    }
+    if (vehicle.type !== reservation.vehicleType) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_RESERVATION,
+        `Reservation ${reservationId} is for a ${reservation.vehicleType}`,
+      );
+    }
+    if (!spotKindsFor(vehicle).includes(reservation.spot.kind)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_RESERVATION,
+        `Vehicle ${vehicle.vehicleNumber} can't use ${reservation.spot.kind} spot ${reservation.spot.spotId}`,
+      );
+    }
+    this.assertNotInside(vehicle);
+
+    let spot = reservation.spot;
+    if (!reservation.holdsSpot) {
+      if (!this.isAvailable(spot)) {
+        const fallback = this.selectSpot(vehicle);
+        if (!fallback) {
+          throw new ParkingLotError(
+            ParkingErrorCode.NO_SPOT_AVAILABLE,
+            `Reserved spot ${spot.spotId} is still occupied`,
+          );
+        }
+        spot = fallback;
+      }
+      this.floorOf(spot).holdSpot(spot, reservationId);
+      this.publish(LotEventType.SPOT_HELD, spot, { reservationId });
+    }
+
+    this.reservations.close(
+      reservation,
+      ReservationStatus.CHECKED_IN,
+      this.clock.now(),
+    );
+    this.record({
+      type: JournalEntryType.RESERVATION_CLOSED,
+      reservationId,
+      status: ReservationStatus.CHECKED_IN,
+    });
+    return this.issueTicket(vehicle, spot, reservationId, reservation);
+  }
+
+  cancelReservation(reservationId: string): void {
+    const reservation = this.findReservation(reservationId);
+    if (!reservation || reservation.status !== ReservationStatus.BOOKED) {
+      throw new ParkingLotError(
+        ParkingErrorCode.RESERVATION_NOT_FOUND,
+        `No open reservation ${reservationId}`,
+      );
+    }
+    this.releaseReservation(reservation, ReservationStatus.CANCELLED);
+  }
+
+  findReservation(reservationId: string): Reservation | null {
+    this.runHousekeeping();
+    return this.reservations.get(reservationId);
+  }
+
+  /**
+   * Time-based work is done lazily on every call into the lot.
+   * A scheduler can also call this so boards stay current when idle.
+   */
+  runHousekeeping(): void {
+    this.expireHolds();
+    this.syncReservations();
+    this.memberships?.sendExpiryNotices(this.clock.now());
+    this.memberships?.updateHoldbacks(this.clock.now());
+  }
+
+  /**
+   * Charger meter reading (cumulative kWh) for a charging vehicle.
+   * Energy is billed on its own receipt line, apart from parking time.
+   */
+  recordChargingEnergy(presented: Ticket | string, totalKwh: number): void {
+    const ticket = this.tickets.resolve(presented);
+    const session = this.accountOf(ticket).charging;
+    if (!session) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_TICKET_STATE,
+        `Ticket ${ticket.ticketId} has no charging session`,
+      );
+    }
+    session.recordMeter(totalKwh, this.clock.now());
+    this.record({
+      type: JournalEntryType.METER_READ,
+      ticketId: ticket.ticketId,
+      totalKwh,
+    });
+  }
+
+  // Try each spot kind the vehicle may use, most wanted first
+  // A pass holder's reserved floors are tried before the whole lot;
+  // elsewhere, floors keep spots back for members who are away
+  private selectSpot(vehicle: Vehicle): ParkingSpot | null {
+    const now = this.clock.now();
+    const reserved =
+      this.memberships?.passForEntry(vehicle.vehicleNumber, now)
+        ?.reservedFloors ?? [];
+    const floorSets = [
+      this.floors.filter((floor) => reserved.includes(floor.floorNumber)),
+      this.floors.filter((floor) => this.hasUnheldSpot(floor, vehicle)),
+    ];
+
+    for (const floors of floorSets) {
+      if (floors.length === 0) continue;
+      for (const kind of spotKindsFor(vehicle)) {
+        const spot = this.allocation.selectSpot(vehicle, floors, kind);
+        if (spot) return spot;
+      }
+    }
+    return null;
+  }
+
+  // More free spots the vehicle fits than the floor keeps for members
+  private hasUnheldSpot(floor: ParkingFloor, vehicle: Vehicle): boolean {
+    let free = 0;
+    let held = 0;
+    for (const type of COMPATIBLE_SPOT_TYPES[vehicle.type]) {
+      free += floor.freeCount(type);
+      held += this.memberships?.heldBack(floor.floorNumber, type) ?? 0;
+    }
+    return free > held;
+  }
+
+  // Same plate can't be inside (or on its way in) twice
+  private assertNotInside(vehicle: Vehicle): void {
+    this.tickets.assertNotParked(vehicle.vehicleNumber);
+    if (this.holdsByVehicle.has(vehicle.vehicleNumber)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.VEHICLE_ALREADY_PARKED,
+        `Vehicle ${vehicle.vehicleNumber} is already being admitted`,
+      );
+    }
+  }
+
+  private issueTicket(
+    vehicle: Vehicle,
+    spot: ParkingSpot,
+    holdId: string,
+    reservation: Reservation | null,
+  ): Ticket {
+    this.floorOf(spot).occupySpot(spot, vehicle, holdId);
+
+    const ticketId = this.tickets.nextTicketId();
+    const ticket = new Ticket(vehicle, spot, ticketId, this.clock.now());
+    const account = new TicketAccount();
+    account.reservation = reservation;
+    account.pass =
+      this.memberships?.admit(vehicle.vehicleNumber, this.clock.now()) ?? null;
+    this.memberships?.setInside(vehicle.vehicleNumber, true, this.clock.now());
+    if (account.pass) {
+      this.record({
+        type: JournalEntryType.PASS_ENTRY_USED,
+        passId: account.pass.passId,
+        month: account.pass.monthOf(this.clock.now()),
+      });
+    }
+    const chargerKw = spot.features.chargerKw ?? 0;
+    if (vehicle.attributes.wantsCharging && chargerKw > 0) {
+      account.charging = new ChargingSession(
+        ticketId,
+        chargerKw,
+        this.clock.now(),
+      );
+    }
+    this.tickets.register(ticket);
+    this.accounts.set(ticketId, account);
+    this.record({
+      type: JournalEntryType.TICKET_ISSUED,
+      ticket: this.ticketState(ticket),
+    });
+    this.publish(LotEventType.VEHICLE_PARKED, spot, {
+      vehicle,
+      ticketId,
+      reservationId: reservation?.reservationId,
+    });
+
+    return ticket;
+  }
+
+  private requestedSpot(
+    spotId: string,
+    vehicleType: VehicleType,
+    start: Date,
+    end: Date,
+  ): ParkingSpot {
+    const spot = this.floors
+      .flatMap((floor) => floor.spots)
+      .find((candidate) => candidate.spotId === spotId);
+    if (!spot || !COMPATIBLE_SPOT_TYPES[vehicleType].includes(spot.type)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_RESERVATION,
+        `Spot ${spotId} can't be reserved for a ${vehicleType}`,
+      );
+    }
+    if (!this.reservations.isSpotFree(spot, start, end)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.RESERVATION_CONFLICT,
+        `Spot ${spotId} is already reserved for part of that window`,
+      );
+    }
+    return spot;
+  }
+
+  // Smallest fitting spot with no overlapping booking
+  private findReservableSpot(
+    vehicleType: VehicleType,
+    kind: SpotKind,
+    start: Date,
+    end: Date,
+    now: Date,
+  ): ParkingSpot {
+    for (const type of COMPATIBLE_SPOT_TYPES[vehicleType]) {
+      for (const floor of this.floors) {
+        const spot = floor.spots.find(
+          (candidate) =>
+            candidate.type === type &&
+            candidate.kind === kind &&
+            // a window that has already started needs a spot free now
+            (start > now || this.isAvailable(candidate)) &&
+            this.reservations.isSpotFree(candidate, start, end),
+        );
+        if (spot) return spot;
+      }
+    }
+    throw new ParkingLotError(
+      ParkingErrorCode.RESERVATION_CONFLICT,
+      `No ${kind} ${vehicleType} spot is free for that window`,
+    );
+  }
+
+  /**
+   * Open windows hold their spot so walk-ins can't take it; bookings
+   * nobody arrived for within the grace period give the spot back.
+   */
+  private syncReservations(): void {
+    const now = this.clock.now();
+    this.reservations.openStarted(now);
+
+    const graceMs = this.reservationGraceMinutes * MS_PER_MINUTE;
+    for (const reservation of this.reservations.openReservations()) {
+      const deadline = Math.min(
+        reservation.start.getTime() + graceMs,
+        reservation.end.getTime(),
+      );
+      if (now.getTime() >= deadline) {
+        this.releaseReservation(reservation, ReservationStatus.NO_SHOW);
+      } else if (!reservation.holdsSpot && this.isAvailable(reservation.spot)) {
+        // Retried until a walk-in who parked before the window leaves
+        this.floorOf(reservation.spot).holdSpot(
+          reservation.spot,
+          reservation.reservationId,
+        );
+        reservation.holdsSpot = true;
+        this.publish(LotEventType.SPOT_HELD, reservation.spot, {
+          reservationId: reservation.reservationId,
+        });
+      }
+    }
+  }
+
+  private releaseReservation(
+    reservation: Reservation,
+    status: ReservationStatus,
+  ): void {
+    this.reservations.close(reservation, status, this.clock.now());
+    this.record({
+      type: JournalEntryType.RESERVATION_CLOSED,
+      reservationId: reservation.reservationId,
+      status,
+    });
+    if (!reservation.holdsSpot) return;
+
+    reservation.holdsSpot = false;
+    this.floorOf(reservation.spot).releaseHold(
+      reservation.spot,
+      reservation.reservationId,
+    );
+    this.publishFreed(LotEventType.HOLD_RELEASED, reservation.spot, {
+      reservationId: reservation.reservationId,
+    });
+  }
+
+  // Holds are expired lazily, whenever the lot is asked for a spot
+  private expireHolds(): void {
+    const now = this.clock.now().getTime();
+    for (const hold of this.holds.values()) {
+      if (hold.expiresAt.getTime() > now) break;
+      this.cancelHold(hold.holdId);
+    }
+  }
+
+  private forgetHold(hold: SpotHold): void {
+    this.holds.delete(hold.holdId);
+    this.holdsByVehicle.delete(hold.vehicle.vehicleNumber);
+  }
+
+  // What the ticket owes if paid now
+  quote(presented: Ticket | string): Bill {
+    const ticket = this.tickets.resolve(presented);
+    this.checkGracePeriod(ticket);
+    return this.billFor(ticket);
+  }
+
+  /**
+   * Pay all or part of the balance. The ticket becomes PAID once the
+   * balance reaches zero, and must then exit within the grace period.
+   */
+  async pay(
+    presented: Ticket | string,
+    method: PaymentMethod,
+    amount?: number,
+  ): Promise<Bill> {
+    const ticket = this.tickets.resolve(presented);
+    this.checkGracePeriod(ticket);
+
+    const account = this.accountOf(ticket);
+    const payable = roundMoney(this.billFor(ticket).balance - account.pending);
+    const charge = roundMoney(amount ?? payable);
+    if (!(charge > 0) || charge > payable) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_PAYMENT,
+        `Cannot pay ${charge.toFixed(2)} on ticket ${ticket.ticketId}: ` +
+          `${payable.toFixed(2)} is payable`,
+      );
+    }
+
+    account.pending += charge;
+    try {
+      const payment = await this.payments.charge(
+        ticket.ticketId,
+        method,
+        charge,
+        this.clock.now(),
+      );
+      account.payments.push(payment);
+      this.record({
+        type: JournalEntryType.PAYMENT_RECEIVED,
+        ticketId: ticket.ticketId,
+        payment: { ...payment },
+      });
+    } finally {
+      account.pending = roundMoney(account.pending - charge);
+    }
+
+    return this.settleIfPaid(ticket);
+  }
+
+  /**
+   * Refund part or all of what was paid, newest payment first.
+   * A PAID ticket that is no longer fully paid has to pay again to exit.
+   */
+  async refund(presented: Ticket | string, amount?: number): Promise<Bill> {
+    const ticket = this.tickets.resolve(presented);
+    const account = this.accountOf(ticket);
+
+    let remaining = roundMoney(amount ?? account.netPaid);
+    if (!(remaining > 0) || remaining > account.netPaid) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_PAYMENT,
+        `Cannot refund ${remaining.toFixed(2)} on ticket ${ticket.ticketId}: ` +
+          `${account.netPaid.toFixed(2)} was paid`,
+      );
+    }
+
+    for (const payment of [...account.payments].reverse()) {
+      const refundable = roundMoney(payment.amount - payment.refunded);
+      if (refundable <= 0) continue;
+
+      const portion = Math.min(refundable, remaining);
+      await this.payments.refund(payment, portion);
+      this.record({
+        type: JournalEntryType.PAYMENT_REFUNDED,
+        ticketId: ticket.ticketId,
+        paymentId: payment.paymentId,
+        amount: portion,
+      });
+      remaining = roundMoney(remaining - portion);
+      if (remaining === 0) break;
+    }
+
+    // Refunded after exit: the recorded stay earned less than it did
+    const session = this.sessions.find((s) => s.ticketId === ticket.ticketId);
+    if (session) session.revenue = account.netPaid;
+
+    if (
+      ticket.getStatus() === TicketStatus.PAID &&
+      this.billFor(ticket).balance > 0
+    ) {
+      this.reopen(ticket);
+    }
+    return this.billFor(ticket);
+  }
+
+  // Unpark vehicle using ticket (or its ID): only a settled ticket may exit
+  unparkVehicle(presented: Ticket | string): Receipt {
+    const ticket = this.tickets.resolve(presented);
+    this.checkGracePeriod(ticket);
+
+    if (ticket.getStatus() === TicketStatus.ACTIVE) {
+      // Free stays settle without a payment
+      const bill = this.settleIfPaid(ticket);
+      if (bill.balance > 0) {
+        throw new ParkingLotError(
+          ParkingErrorCode.PAYMENT_REQUIRED,
+          `Ticket ${ticket.ticketId} owes ${bill.balance.toFixed(2)}`,
+        );
+      }
+    }
+
+    const exitTime = this.clock.now();
+    const floor = this.floorOf(ticket.spot);
+    ticket.markExited(exitTime);
+    this.tickets.markExited(ticket);
+    floor.releaseSpot(ticket.spot);
+    this.memberships?.setInside(ticket.vehicle.vehicleNumber, false, exitTime);
+
+    const session = this.sessionOf(ticket, floor.floorNumber);
+    this.sessions.push(session);
+    this.record({
+      type: JournalEntryType.TICKET_EXITED,
+      ticketId: ticket.ticketId,
+      exitTime,
+      session,
+    });
+    this.publishFreed(LotEventType.VEHICLE_UNPARKED, ticket.spot, {
+      vehicle: ticket.vehicle,
+      ticketId: ticket.ticketId,
+    });
+
+    return new Receipt(
+      ticket.ticketId,
+      ticket.vehicle.vehicleNumber,
+      ticket.spot.spotId,
+      ticket.entryTime,
+      exitTime,
+      this.billFor(ticket).lines,
+      this.accountOf(ticket).payments,
+    );
+  }
+
+  /**
+   * Lost ticket: find the vehicle by plate and add a penalty to its bill
+   *
+   * SPEAK:
+   * "The plate is the fallback identity. The penalty discourages
+   *  'losing' a ticket to dodge a long stay."
+   */
+  reportLostTicket(vehicleNumber: string): Bill {
+    const ticket = this.tickets.findActiveByVehicle(vehicleNumber);
+    if (!ticket) {
+      throw new ParkingLotError(
+        ParkingErrorCode.TICKET_NOT_FOUND,
+        `No parked vehicle with number ${vehicleNumber}`,
+      );
+    }
+    if (ticket.getStatus() !== TicketStatus.ACTIVE) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_TICKET_STATE,
+        `Ticket ${ticket.ticketId} is already paid`,
+      );
+    }
+
+    const account = this.accountOf(ticket);
+    const alreadyReported = account.surcharges.some(
+      (line) => line.description === LOST_TICKET_PENALTY,
+    );
+    if (!alreadyReported) {
+      const now = this.clock.now();
+      const line: ChargeLine = {
+        description: LOST_TICKET_PENALTY,
+        from: now,
+        to: now,
+        amount: this.lostTicketPenalty,
+      };
+      account.surcharges.push(line);
+      this.record({
+        type: JournalEntryType.SURCHARGE_ADDED,
+        ticketId: ticket.ticketId,
+        line,
+      });
+    }
+    return this.billFor(ticket);
+  }
+
+  findTicket(ticketId: string): Ticket | null {
+    return this.tickets.findById(ticketId);
+  }
+
+  /**
+   * Usage report over [from, to). Vehicles still inside count toward
+   * occupancy; dwell time, turnover and revenue use completed stays.
+   * Capacity is today's layout.
+   */
+  report(from: Date, to: Date, bucketMinutes = 60): UsageReport {
+    const current = this.tickets
+      .all()
+      .filter((ticket) => ticket.getStatus() !== TicketStatus.EXITED)
+      .map((ticket) =>
+        this.sessionOf(ticket, this.floorOf(ticket.spot).floorNumber),
+      );
+    const capacity = this.floors.flatMap((floor) =>
+      Object.values(SpotType)
+        .map((spotType) => ({
+          floorNumber: floor.floorNumber,
+          spotType,
+          spots: floor.spots.filter((spot) => spot.type === spotType).length,
+        }))
+        .filter((entry) => entry.spots > 0),
+    );
+
+    return new UsageReport({
+      from,
+      to,
+      asOf: this.clock.now(),
+      bucketMinutes,
+      sessions: [...this.sessions, ...current],
+      capacity,
+    });
+  }
+
+  /*********************************************************************
+   * ADMIN OPERATIONS
+   *
+   * SPEAK:
+   * "Layout changes go through the floor so its free-spot index stays
+   *  right, and through the lot so boards hear about them.
+   *  Maintenance stops new allocation; vehicles already parked can
+   *  still pay and leave."
+   *********************************************************************/
+
+  addFloor(floor: ParkingFloor): void {
+    if (this.floors.some((f) => f.floorNumber === floor.floorNumber)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_LAYOUT,
+        `Floor ${floor.floorNumber} already exists`,
+      );
+    }
+    floor.spots.forEach((spot) => this.assertNewSpotId(spot.spotId));
+
+    this.floors.push(floor);
+    this.record({
+      type: JournalEntryType.FLOOR_ADDED,
+      floor: layoutOf([floor]).floors[0],
+    });
+    for (const spot of floor.spots) {
+      if (this.isAvailable(spot)) {
+        this.publish(LotEventType.SPOT_ADDED, spot, {});
+      }
+    }
+  }
+
+  addSpot(floorNumber: number, spot: ParkingSpot): void {
+    const floor = this.findFloor(floorNumber);
+    this.assertNewSpotId(spot.spotId);
+
+    floor.addSpot(spot);
+    this.record({
+      type: JournalEntryType.SPOT_ADDED,
+      floorNumber,
+      spot: spotConfigOf(spot),
+    });
+    if (this.isAvailable(spot)) {
+      this.publish(LotEventType.SPOT_ADDED, spot, {});
+    }
+  }
+
+  // Refused while a vehicle is in it, a gate holds it, or it is booked
+  removeSpot(spotId: string): void {
+    this.runHousekeeping();
+    const spot = this.findSpot(spotId);
+
+    if (spot.isInUse()) {
+      throw new ParkingLotError(
+        ParkingErrorCode.SPOT_OCCUPIED,
+        `Spot ${spotId} is in use and can't be removed`,
+      );
+    }
+    if (this.reservations.hasLiveBookings(spot)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.RESERVATION_CONFLICT,
+        `Spot ${spotId} has reservations and can't be removed`,
+      );
+    }
+
+    const wasAvailable = this.isAvailable(spot);
+    if (wasAvailable) this.publish(LotEventType.SPOT_REMOVED, spot, {});
+    this.floorOf(spot).removeSpot(spot);
+    this.record({ type: JournalEntryType.SPOT_REMOVED, spotId });
+  }
+
+  setSpotMaintenance(spotId: string, on: boolean): void {
+    const spot = this.findSpot(spotId);
+    const wasAvailable = this.isAvailable(spot);
+
+    this.floorOf(spot).setSpotMaintenance(spot, on);
+    this.record({ type: JournalEntryType.SPOT_MAINTENANCE, spotId, on });
+    this.publishAvailabilityChange(spot, wasAvailable);
+  }
+
+  setFloorMaintenance(floorNumber: number, on: boolean): void {
+    const floor = this.findFloor(floorNumber);
+    const wasAvailable = new Map(
+      floor.spots.map((spot) => [spot, this.isAvailable(spot)]),
+    );
+
+    floor.setMaintenance(on);
+    this.record({ type: JournalEntryType.FLOOR_MAINTENANCE, floorNumber, on });
+    for (const [spot, was] of wasAvailable) {
+      this.publishAvailabilityChange(spot, was);
+    }
+  }
+
+  // Returns an unsubscribe function
+  subscribe(observer: LotObserver): () => void {
+    this.observers.add(observer);
+    return () => this.observers.delete(observer);
+  }
+
+  // Current free counts, e.g. to seed a display board
+  availability(): FloorAvailability[] {
+    return this.floors.map((floor) => {
+      const free = {} as Record<SpotType, number>;
+      for (const type of Object.values(SpotType)) {
+        free[type] = floor.freeCount(type);
+      }
+      return { floorNumber: floor.floorNumber, free };
+    });
+  }
+
+  findTicketByVehicle(vehicleNumber: string): Ticket | null {
+    return this.tickets.findActiveByVehicle(vehicleNumber);
+  }
+
+  /*********************************************************************
+   * PERSISTENCE
+   *
+   * SPEAK:
+   * "Every change is recorded after it is applied in memory, so a
+   *  snapshot taken between two entries is always consistent.
+   *  Gate holds are not saved: a gate that crashes mid-entry
+   *  simply admits the driver again."
+   *********************************************************************/
+
+  // Everything needed to rebuild the lot; plain data, safe to serialise
+  exportState(): LotState {
+    return {
+      layout: layoutOf(this.floors),
+      tickets: this.tickets.all().map((ticket) => this.ticketState(ticket)),
+      reservations: this.reservations.all().map(reservationState),
+      sessions: [...this.sessions],
+      passes: this.memberships?.all().map(passState) ?? [],
+    };
+  }
+
+  private static fromState(
+    state: LotState,
+    options: ParkingLotOptions,
+  ): ParkingLot {
+    const lot = new ParkingLot(buildLayout(state.layout), options);
+    const spots = new Map(
+      lot.floors
+        .flatMap((floor) => floor.spots)
+        .map((spot) => [spot.spotId, spot]),
+    );
+
+    for (const saved of state.reservations) {
+      const spot = spots.get(saved.spotId);
+      if (!spot) continue; // removed after the booking closed
+      const reservation = new Reservation(
+        saved.reservationId,
+        saved.vehicleType,
+        spot,
+        saved.start,
+        saved.end,
+        saved.estimatedFee,
+      );
+      reservation.status = saved.status;
+      lot.reservations.add(reservation);
+    }
+
+    // The registry passed in is replaced by the saved passes
+    lot.memberships?.restore(state.passes, lot.clock.now());
+
+    for (const saved of state.tickets) {
+      const vehicle = createVehicle(saved.vehicle);
+      // An exited ticket's spot may have been removed since
+      const spot =
+        spots.get(saved.spotId) ??
+        new ParkingSpot(saved.spotId, saved.spotType);
+      const ticket = new Ticket(vehicle, spot, saved.ticketId, saved.entryTime);
+      if (saved.paidAt && saved.status !== TicketStatus.ACTIVE) {
+        ticket.markPaid(saved.paidAt);
+      }
+      lot.tickets.register(ticket);
+
+      if (saved.status === TicketStatus.EXITED && saved.exitTime) {
+        ticket.markExited(saved.exitTime);
+        lot.tickets.markExited(ticket);
+      } else {
+        lot.restoreParkedVehicle(spot, vehicle);
+        lot.memberships?.setInside(
+          vehicle.vehicleNumber,
+          true,
+          lot.clock.now(),
+        );
+      }
+
+      const account = new TicketAccount();
+      account.surcharges.push(...saved.surcharges);
+      account.payments.push(...saved.payments);
+      account.settledLines = saved.settledLines;
+      account.reservation = saved.reservationId
+        ? lot.reservations.get(saved.reservationId)
+        : null;
+      account.pass =
+        (saved.passId && lot.memberships?.findById(saved.passId)) || null;
+      if (saved.charging) {
+        const { chargerKw, startedAt, energyKwh, stoppedAt } = saved.charging;
+        account.charging = new ChargingSession(
+          saved.ticketId,
+          chargerKw,
+          startedAt,
+          energyKwh,
+          stoppedAt,
+        );
+      }
+      lot.accounts.set(saved.ticketId, account);
+    }
+    lot.sessions.push(...state.sessions);
+    return lot;
+  }
+
+  // The spot may have been closed for maintenance after the car parked
+  private restoreParkedVehicle(spot: ParkingSpot, vehicle: Vehicle): void {
+    const floor = this.floorOf(spot);
+    const closed = spot.isInMaintenance();
+
+    if (closed) floor.setSpotMaintenance(spot, false);
+    floor.occupySpot(spot, vehicle);
+    if (closed) floor.setSpotMaintenance(spot, true);
+  }
+
+  // Exit time stays null while the vehicle is inside
+  private sessionOf(ticket: Ticket, floorNumber: number): SessionRecord {
+    return {
+      ticketId: ticket.ticketId,
+      vehicleType: ticket.vehicle.type,
+      floorNumber,
+      spotId: ticket.spot.spotId,
+      spotType: ticket.spot.type,
+      entryTime: ticket.entryTime,
+      exitTime: ticket.getExitTime(),
+      revenue: this.accountOf(ticket).netPaid,
+    };
+  }
+
+  private ticketState(ticket: Ticket): TicketState {
+    const account = this.accountOf(ticket);
+    const { vehicle, spot } = ticket;
+    const session = account.charging;
+
+    return {
+      ticketId: ticket.ticketId,
+      vehicle: {
+        vehicleNumber: vehicle.vehicleNumber,
+        type: vehicle.type,
+        attributes: { ...vehicle.attributes },
+      },
+      spotId: spot.spotId,
+      spotType: spot.type,
+      entryTime: ticket.entryTime,
+      status: ticket.getStatus(),
+      paidAt: ticket.getPaidAt(),
+      exitTime: ticket.getExitTime(),
+      surcharges: [...account.surcharges],
+      payments: account.payments.map((payment) => ({ ...payment })),
+      settledLines: account.settledLines,
+      reservationId: account.reservation?.reservationId ?? null,
+      passId: account.pass?.passId ?? null,
+      charging: session && {
+        chargerKw: session.chargerKw,
+        startedAt: session.startedAt,
+        energyKwh: session.energyKwh,
+        stoppedAt: session.getStoppedAt(),
+      },
+    };
+  }
+
+  private record(entry: JournalEntry): void {
+    if (!this.journal) return;
+
+    this.journal.append(entry);
+    if (this.journal.snapshotDue) {
+      this.journal.writeSnapshot(this.exportState());
+    }
+  }
+
+  // Unpaid tickets are priced up to now; paid ones keep the settled price.
+  // A reserved stay covers at least the booked window.
+  private billFor(ticket: Ticket): Bill {
+    const account = this.accountOf(ticket);
+    const lines = account.settledLines ?? this.openLines(ticket, account);
+    const total = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+    const paid = account.netPaid;
+
+    return {
+      ticketId: ticket.ticketId,
+      lines,
+      total,
+      paid,
+      balance: roundMoney(Math.max(0, total - paid)),
+    };
+  }
+
+  private openLines(ticket: Ticket, account: TicketAccount): ChargeLine[] {
+    const now = this.clock.now();
+    const booked = account.reservation;
+    const parking = this.pricing.calculate({
+      vehicleType: ticket.vehicle.type,
+      spotType: ticket.spot.type,
+      entryTime:
+        booked && booked.start < ticket.entryTime
+          ? booked.start
+          : ticket.entryTime,
+      exitTime: booked && booked.end > now ? booked.end : now,
+    });
+
+    return [
+      ...parking,
+      ...(account.pass ? [passDiscountLine(account.pass, parking)] : []),
+      ...(account.charging?.chargeLines(this.chargingRatePerKwh, now) ?? []),
+      ...account.surcharges,
+    ];
+  }
+
+  private settleIfPaid(ticket: Ticket): Bill {
+    const bill = this.billFor(ticket);
+    if (bill.balance === 0 && ticket.getStatus() === TicketStatus.ACTIVE) {
+      const account = this.accountOf(ticket);
+      const paidAt = this.clock.now();
+      ticket.markPaid(paidAt);
+      account.settledLines = bill.lines;
+      // Energy after payment would go unbilled
+      account.charging?.stop(paidAt);
+      this.record({
+        type: JournalEntryType.TICKET_SETTLED,
+        ticketId: ticket.ticketId,
+        paidAt,
+        lines: bill.lines,
+      });
+    }
+    return bill;
+  }
+
+  // A paid ticket that hasn't left in time owes for the overstay
+  private checkGracePeriod(ticket: Ticket): void {
+    const paidAt = ticket.getPaidAt();
+    if (ticket.getStatus() !== TicketStatus.PAID || !paidAt) return;
+
+    const waited = this.clock.now().getTime() - paidAt.getTime();
+    if (waited > this.exitGraceMinutes * MS_PER_MINUTE) {
+      this.reopen(ticket);
+    }
+  }
+
+  private reopen(ticket: Ticket): void {
+    ticket.reopen();
+    this.accountOf(ticket).settledLines = null;
+    this.record({
+      type: JournalEntryType.TICKET_REOPENED,
+      ticketId: ticket.ticketId,
+    });
+  }
+
+  private accountOf(ticket: Ticket): TicketAccount {
+    const account = this.accounts.get(ticket.ticketId);
+    if (!account) {
+      throw new Error(`Ticket ${ticket.ticketId} has no account`);
+    }
+    return account;
+  }
+
+  // Free and on an open floor: the only spots a driver can be sent to
+  private isAvailable(spot: ParkingSpot): boolean {
+    return spot.isFree() && !this.floorOf(spot).inMaintenance;
+  }
+
+  // A released spot in maintenance is announced as closed again
+  private publishFreed(
+    type: LotEventType,
+    spot: ParkingSpot,
+    details: { vehicle?: Vehicle; ticketId?: string; reservationId?: string },
+  ): void {
+    this.publish(type, spot, details);
+    if (!this.isAvailable(spot)) {
+      this.publish(LotEventType.SPOT_CLOSED, spot, {});
+    }
+  }
+
+  private publish(
+    type: LotEventType,
+    spot: ParkingSpot,
+    details: { vehicle?: Vehicle; ticketId?: string; reservationId?: string },
+  ): void {
+    const event: LotEvent = {
+      type,
+      time: this.clock.now(),
+      floorNumber: this.floorOf(spot).floorNumber,
+      spotId: spot.spotId,
+      spotType: spot.type,
+      vehicleNumber: details.vehicle?.vehicleNumber,
+      ticketId: details.ticketId,
+      reservationId: details.reservationId,
+    };
+    for (const observer of this.observers) observer.onLotEvent(event);
+  }
+
+  private publishAvailabilityChange(
+    spot: ParkingSpot,
+    wasAvailable: boolean,
+  ): void {
+    const isAvailable = this.isAvailable(spot);
+    if (wasAvailable && !isAvailable) {
+      this.publish(LotEventType.SPOT_CLOSED, spot, {});
+    } else if (!wasAvailable && isAvailable) {
+      this.publish(LotEventType.SPOT_REOPENED, spot, {});
+    }
+  }
+
+  private findFloor(floorNumber: number): ParkingFloor {
+    const floor = this.floors.find((f) => f.floorNumber === floorNumber);
+    if (!floor) {
+      throw new ParkingLotError(
+        ParkingErrorCode.FLOOR_NOT_FOUND,
+        `No floor ${floorNumber}`,
+      );
+    }
+    return floor;
+  }
+
+  private findSpot(spotId: string): ParkingSpot {
+    for (const floor of this.floors) {
+      const spot = floor.spots.find((candidate) => candidate.spotId === spotId);
+      if (spot) return spot;
+    }
+    throw new ParkingLotError(
+      ParkingErrorCode.SPOT_NOT_FOUND,
+      `No spot ${spotId}`,
+    );
+  }
+
+  private assertNewSpotId(spotId: string): void {
+    const taken = this.floors.some((floor) =>
+      floor.spots.some((spot) => spot.spotId === spotId),
+    );
+    if (taken) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_LAYOUT,
+        `Spot ${spotId} already exists`,
+      );
+    }
+  }
+
+  private floorOf(spot: ParkingSpot): ParkingFloor {
+    const floor = this.floors.find((candidate) => candidate.hasSpot(spot));
+    if (!floor) {
+      throw new Error(`Spot ${spot.spotId} does not belong to this lot`);
+    }
+    return floor;
+  }
+}
+
+/***********************************************************************
+ * STEP 20: DISPLAY BOARDS (Observer)
+ *
+ * SPEAK:
+ * "A board reads the counts once when it is switched on, then only
+ *  applies event deltas: O(1) per event, no matter how big the lot.
+ *  FULL per vehicle type lets a gate turn cars away at the barrier."
+ ***********************************************************************/
+
+// A parked spot was held first, so parking itself doesn't change counts.
+// Admin events are only published for spots that were or become free.
+const FREE_DELTA: Record<LotEventType, number> = {
+  [LotEventType.SPOT_HELD]: -1,
+  [LotEventType.HOLD_RELEASED]: 1,
+  [LotEventType.VEHICLE_PARKED]: 0,
+  [LotEventType.VEHICLE_UNPARKED]: 1,
+  [LotEventType.SPOT_ADDED]: 1,
+  [LotEventType.SPOT_REMOVED]: -1,
+  [LotEventType.SPOT_CLOSED]: -1,
+  [LotEventType.SPOT_REOPENED]: 1,
+};
+
+class DisplayBoard implements LotObserver {
+  private freeByFloor = new Map<number, Map<SpotType, number>>();
+  private totals = new Map<SpotType, number>();
+
+  // floorNumber = null makes it the entrance board for the whole lot
+  constructor(
+    lot: ParkingLot,
+    public readonly floorNumber: number | null = null,
+  ) {
+    for (const { floorNumber: floor, free } of lot.availability()) {
+      if (!this.shows(floor)) continue;
+      for (const type of Object.values(SpotType)) {
+        this.adjust(floor, type, free[type]);
+      }
+    }
+    lot.subscribe(this);
+  }
+
+  onLotEvent(event: LotEvent): void {
+    if (!this.shows(event.floorNumber)) return;
+    this.adjust(event.floorNumber, event.spotType, FREE_DELTA[event.type]);
+  }
+
+  freeCount(type: SpotType, floorNumber?: number): number {
+    if (floorNumber === undefined) return this.totals.get(type) ?? 0;
+    return this.freeByFloor.get(floorNumber)?.get(type) ?? 0;
+  }
+
+  // FULL when no spot type this vehicle can use has a free spot
+  isFull(vehicleType: VehicleType): boolean {
+    return COMPATIBLE_SPOT_TYPES[vehicleType].every(
+      (type) => this.freeCount(type) === 0,
+    );
+  }
+
+  render(): string {
+    const title =
+      this.floorNumber === null ? 'ENTRANCE' : `FLOOR ${this.floorNumber}`;
+    const spots = Object.values(SpotType).map(
+      (type) => `${type} ${this.freeCount(type)}`,
+    );
+    const vehicles = Object.values(VehicleType).map(
+      (type) => `${type} ${this.isFull(type) ? 'FULL' : 'OPEN'}`,
+    );
+    return `[${title}] ${spots.join(' | ')} || ${vehicles.join(' | ')}`;
+  }
+
+  private shows(floorNumber: number): boolean {
+    return this.floorNumber === null || this.floorNumber === floorNumber;
+  }
+
+  private adjust(floorNumber: number, type: SpotType, delta: number): void {
+    if (delta === 0) return;
+
+    let floor = this.freeByFloor.get(floorNumber);
+    if (!floor) {
+      floor = new Map<SpotType, number>();
+      this.freeByFloor.set(floorNumber, floor);
+    }
+    floor.set(type, (floor.get(type) ?? 0) + delta);
+    this.totals.set(type, (this.totals.get(type) ?? 0) + delta);
+  }
+}
+
+/***********************************************************************
+ * STEP 21: GATES (Async Clients of the Lot)
+ *
+ * SPEAK:
+ * "Gates are where concurrency comes from. A gate holds a spot,
+ *  waits on the driver, then confirms; the hold keeps gates apart.
+ *  Every gate keeps its own audit trail of what it let through."
+ ***********************************************************************/
+
+enum GateEvent {
+  SPOT_HELD = 'SPOT_HELD',
+  TICKET_ISSUED = 'TICKET_ISSUED',
+  ENTRY_REJECTED = 'ENTRY_REJECTED',
+  EXIT_ALLOWED = 'EXIT_ALLOWED',
+  EXIT_REJECTED = 'EXIT_REJECTED',
+}
+
+interface GateAuditEntry {
+  time: Date;
+  gateId: string;
+  event: GateEvent;
+  vehicleNumber: string;
+  spotId?: string;
+  ticketId?: string;
+  detail?: string; // error code of a rejection
+}
+
+// Time spent on the driver: printing the ticket, lifting the barrier...
+type GateDelay = () => Promise<void>;
+
+interface GateOptions {
+  clock?: Clock; // audit timestamps, defaults to the system clock
+  delay?: GateDelay; // defaults to no wait
+  board?: DisplayBoard; // entry gates turn vehicles away when FULL
+}
+
+abstract class Gate {
+  private readonly auditTrail: GateAuditEntry[] = [];
+  private readonly clock: Clock;
+  protected readonly delay: GateDelay;
+  protected readonly board: DisplayBoard | null;
+
+  constructor(
+    public readonly gateId: string,
+    protected readonly lot: ParkingLot,
+    options: GateOptions = {},
+  ) {
+    this.clock = options.clock ?? new SystemClock();
+    this.delay = options.delay ?? (async () => {});
+    this.board = options.board ?? null;
+  }
+
+  getAuditTrail(): readonly GateAuditEntry[] {
+    return this.auditTrail;
+  }
+
+  protected record(entry: Omit<GateAuditEntry, 'time' | 'gateId'>): void {
+    this.auditTrail.push({
+      time: this.clock.now(),
+      gateId: this.gateId,
+      ...entry,
+    });
+  }
+}
+
+class EntryGate extends Gate {
+  async admit(vehicle: Vehicle): Promise<Ticket> {
+    const { vehicleNumber } = vehicle;
+    let hold: SpotHold | null = null;
+
+    try {
+      // Don't even lift the barrier when the board already says FULL
+      if (this.board?.isFull(vehicle.type)) {
+        throw new ParkingLotError(
+          ParkingErrorCode.NO_SPOT_AVAILABLE,
+          `Lot is full for ${vehicle.type}`,
+        );
+      }
+
+      hold = this.lot.reserveSpot(vehicle);
+      this.record({
+        event: GateEvent.SPOT_HELD,
+        vehicleNumber,
+        spotId: hold.spot.spotId,
+      });
+
+      await this.delay();
+
+      const ticket = this.lot.confirmSpot(hold.holdId);
+      this.record({
+        event: GateEvent.TICKET_ISSUED,
+        vehicleNumber,
+        spotId: ticket.spot.spotId,
+        ticketId: ticket.ticketId,
+      });
+      return ticket;
+    } catch (err) {
+      if (hold) this.lot.cancelHold(hold.holdId);
+      this.record({
+        event: GateEvent.ENTRY_REJECTED,
+        vehicleNumber,
+        detail: errorCode(err),
+      });
+      throw err;
+    }
+  }
+}
+
+class ExitGate extends Gate {
+  // Collect whatever is still owed (if a method is given), then open
+  async exit(
+    presented: Ticket | string,
+    method?: PaymentMethod,
+  ): Promise<Receipt> {
+    const ticketId =
+      typeof presented === 'string' ? presented : presented.ticketId;
+    const vehicleNumber =
+      this.lot.findTicket(ticketId)?.vehicle.vehicleNumber ?? 'UNKNOWN';
+
+    try {
+      if (method && this.lot.quote(presented).balance > 0) {
+        await this.lot.pay(presented, method);
+      }
+
+      await this.delay();
+
+      const receipt = this.lot.unparkVehicle(presented);
+      this.record({
+        event: GateEvent.EXIT_ALLOWED,
+        vehicleNumber,
+        spotId: receipt.spotId,
+        ticketId,
+      });
+      return receipt;
+    } catch (err) {
+      this.record({
+        event: GateEvent.EXIT_REJECTED,
+        vehicleNumber,
+        ticketId,
+        detail: errorCode(err),
+      });
+      throw err;
+    }
+  }
+}
+
+function errorCode(err: unknown): string {
+  return err instanceof ParkingLotError ? err.code : (err as Error).message;
+}
+
+/***********************************************************************
+ * STEP 22: LAYOUT CONFIG (Validate at the Boundary)
+ *
+ * SPEAK:
+ * "The layout comes from a config file an operator edits by hand.
+ *  I validate everything up front and report every bad entry with
+ *  its path, e.g. floors[1].spots[3].type, instead of failing on
+ *  the first one. Anything that parses to the same shape (JSON here,
+ *  YAML with a parser) goes through the same validation."
+ *
+ * {
+ *   "floors": [
+ *     { "floor": 1, "maintenance": false, "spots": [
+ *       { "id": "F1-C1", "type": "COMPACT", "distance": 10,
+ *         "chargerKw": 22, "accessible": false, "maintenance": false }
+ *     ] }
+ *   ]
+ * }
+ ***********************************************************************/
+
+interface LayoutIssue {
+  path: string; // e.g. floors[0].spots[2].type
+  problem: string;
+}
+
+// The shape buildLayout accepts once validated, and layoutOf produces
+interface SpotConfig {
+  id: string;
+  type: SpotType;
+  distance?: number;
+  chargerKw?: number;
+  accessible?: boolean;
+  maintenance?: boolean;
+}
+
+interface FloorConfig {
+  floor: number;
+  maintenance?: boolean;
+  spots: SpotConfig[];
+}
+
+interface LayoutConfig {
+  floors: FloorConfig[];
+}
+
+class LayoutConfigError extends ParkingLotError {
+  constructor(public readonly issues: LayoutIssue[]) {
+    super(
+      ParkingErrorCode.INVALID_LAYOUT,
+      issues.map((issue) => `${issue.path}: ${issue.problem}`).join('; '),
+    );
+    this.name = 'LayoutConfigError';
+  }
+}
+
+function buildLayout(config: unknown): ParkingFloor[] {
+  const issues: LayoutIssue[] = [];
+  const report = (at: string, problem: string): void => {
+    issues.push({ path: at, problem });
+  };
+
+  if (!isRecord(config) || !Array.isArray(config.floors)) {
+    throw new LayoutConfigError([
+      { path: 'floors', problem: 'must be a list of floors' },
+    ]);
+  }
+
+  const floorNumbers = new Set<number>();
+  const spotIds = new Set<string>();
+  const floors: ParkingFloor[] = [];
+
+  config.floors.forEach((floorEntry: unknown, f: number) => {
+    const at = `floors[${f}]`;
+    if (!isRecord(floorEntry)) return report(at, 'must be an object');
+
+    const { floor, spots, maintenance } = floorEntry;
+    if (typeof floor !== 'number' || !Number.isInteger(floor)) {
+      report(`${at}.floor`, 'must be a whole number');
+    } else if (floorNumbers.has(floor)) {
+      report(`${at}.floor`, `floor ${floor} is listed twice`);
+    }
+    if (maintenance !== undefined && typeof maintenance !== 'boolean') {
+      report(`${at}.maintenance`, 'must be true or false');
+    }
+    if (!Array.isArray(spots)) return report(`${at}.spots`, 'must be a list');
+
+    const built: ParkingSpot[] = [];
+    spots.forEach((spotEntry: unknown, i: number) => {
+      const spotAt = `${at}.spots[${i}]`;
+      if (!isRecord(spotEntry)) return report(spotAt, 'must be an object');
+
+      const { id, type, distance, chargerKw, accessible } = spotEntry;
+      const before = issues.length;
+
+      if (typeof id !== 'string' || id.trim() === '') {
+        report(`${spotAt}.id`, 'must be a non-empty string');
+      } else if (spotIds.has(id)) {
+        report(`${spotAt}.id`, `spot ${id} is listed twice`);
+      }
+      if (!Object.values(SpotType).includes(type as SpotType)) {
+        report(
+          `${spotAt}.type`,
+          `must be one of ${Object.values(SpotType).join(', ')}`,
+        );
+      }
+      if (
+        distance !== undefined &&
+        (typeof distance !== 'number' || distance < 0)
+      ) {
+        report(`${spotAt}.distance`, 'must be a number >= 0');
+      }
+      if (
+        chargerKw !== undefined &&
+        (typeof chargerKw !== 'number' || chargerKw <= 0)
+      ) {
+        report(`${spotAt}.chargerKw`, 'must be a number > 0');
+      }
+      if (accessible !== undefined && typeof accessible !== 'boolean') {
+        report(`${spotAt}.accessible`, 'must be true or false');
+      }
+      if (
+        spotEntry.maintenance !== undefined &&
+        typeof spotEntry.maintenance !== 'boolean'
+      ) {
+        report(`${spotAt}.maintenance`, 'must be true or false');
+      }
+      if (issues.length > before) return;
+
+      const spot = new ParkingSpot(
+        id as string,
+        type as SpotType,
+        (distance as number | undefined) ?? 0,
+        {
+          chargerKw: chargerKw as number | undefined,
+          accessible: accessible as boolean | undefined,
+        },
+      );
+      spot.setMaintenance(spotEntry.maintenance === true);
+      spotIds.add(spot.spotId);
+      built.push(spot);
+    });
+
+    if (typeof floor === 'number' && !floorNumbers.has(floor)) {
+      floorNumbers.add(floor);
+      const parkingFloor = new ParkingFloor(floor, built);
+      parkingFloor.setMaintenance(maintenance === true);
+      floors.push(parkingFloor);
+    }
+  });
+
+  if (issues.length > 0) throw new LayoutConfigError(issues);
+  return floors;
+}
+
+function loadLayoutFile(filePath: string): ParkingFloor[] {
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    throw new LayoutConfigError([
+      { path: filePath, problem: (err as Error).message },
+    ]);
+  }
+  return buildLayout(config);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The current layout written back out as config, e.g. for a snapshot
+function layoutOf(floors: ParkingFloor[]): LayoutConfig {
+  return {
+    floors: floors.map((floor) => ({
+      floor: floor.floorNumber,
+      maintenance: floor.inMaintenance,
+      spots: floor.spots.map(spotConfigOf),
+    })),
+  };
+}
+
+function spotConfigOf(spot: ParkingSpot): SpotConfig {
+  return {
+    id: spot.spotId,
+    type: spot.type,
+    distance: spot.distanceFromEntry,
+    chargerKw: spot.features.chargerKw,
+    accessible: spot.features.accessible,
+    maintenance: spot.isInMaintenance(),
+  };
+}
+
+/***********************************************************************
+ * STEP 23: PERSISTENCE (Event Sourcing: Journal + Snapshots)
+ *
+ * SPEAK:
+ * "The journal records facts, not commands: 'ticket TKT-7 was paid
+ *  40 by card', not 'charge the card'. Replaying a fact never calls a
+ *  gateway or re-runs allocation, so recovery can't charge twice or
+ *  pick a different spot.
+ *  The journal is append-only, one checksummed record per line.
+ *  A crash mid-write leaves a partial last line; it is ignored,
+ *  because the change it described was never acknowledged.
+ *  A snapshot every N entries holds the whole state, and the journal
+ *  starts over after it, so replay stays short."
+ *
+ * journal.jsonl:  <sha256 prefix> {"seq":7,"entry":{"type":...}}
+ * snapshot.json:  {"seq":5,"state":{"layout":...,"tickets":[...]}}
+ ***********************************************************************/
+
+interface VehicleState {
+  vehicleNumber: string;
+  type: VehicleType;
+  attributes: VehicleAttributes;
+}
+
+interface TicketState {
+  ticketId: string;
+  vehicle: VehicleState;
+  spotId: string;
+  spotType: SpotType;
+  entryTime: Date;
+  status: TicketStatus;
+  paidAt: Date | null;
+  exitTime: Date | null;
+  surcharges: ChargeLine[];
+  payments: PaymentRecord[];
+  settledLines: ChargeLine[] | null;
+  reservationId: string | null;
+  passId: string | null;
+  charging: {
+    chargerKw: number;
+    startedAt: Date;
+    energyKwh: number;
+    stoppedAt: Date | null;
+  } | null;
+}
+
+interface ReservationState {
+  reservationId: string;
+  vehicleType: VehicleType;
+  spotId: string;
+  start: Date;
+  end: Date;
+  estimatedFee: number;
+  status: ReservationStatus;
+}
+
+interface PassState {
+  passId: string;
+  vehicleNumber: string;
+  vehicleType: VehicleType;
+  type: PassType;
+  validFrom: Date;
+  validUntil: Date;
+  discountPercent: number;
+  entriesPerMonth: number | null;
+  reservedFloors: number[];
+  entriesByMonth: Record<string, number>;
+}
+
+// Tickets are kept after exit so old IDs are never issued again
+interface LotState {
+  layout: LayoutConfig;
+  tickets: TicketState[];
+  reservations: ReservationState[];
+  sessions: SessionRecord[]; // completed stays, for reports
+  passes: PassState[]; // from the membership registry, if any
+}
+
+enum JournalEntryType {
+  TICKET_ISSUED = 'TICKET_ISSUED',
+  TICKET_SETTLED = 'TICKET_SETTLED',
+  TICKET_REOPENED = 'TICKET_REOPENED',
+  TICKET_EXITED = 'TICKET_EXITED',
+  PAYMENT_RECEIVED = 'PAYMENT_RECEIVED',
+  PAYMENT_REFUNDED = 'PAYMENT_REFUNDED',
+  SURCHARGE_ADDED = 'SURCHARGE_ADDED',
+  METER_READ = 'METER_READ',
+  RESERVATION_BOOKED = 'RESERVATION_BOOKED',
+  RESERVATION_CLOSED = 'RESERVATION_CLOSED',
+  FLOOR_ADDED = 'FLOOR_ADDED',
+  SPOT_ADDED = 'SPOT_ADDED',
+  SPOT_REMOVED = 'SPOT_REMOVED',
+  SPOT_MAINTENANCE = 'SPOT_MAINTENANCE',
+  FLOOR_MAINTENANCE = 'FLOOR_MAINTENANCE',
+  PASS_ISSUED = 'PASS_ISSUED',
+  PASS_ENTRY_USED = 'PASS_ENTRY_USED',
+}
+
+type JournalEntry =
+  | { type: JournalEntryType.TICKET_ISSUED; ticket: TicketState }
+  | {
+      type: JournalEntryType.TICKET_SETTLED;
+      ticketId: string;
+      paidAt: Date;
+      lines: ChargeLine[];
+    }
+  | { type: JournalEntryType.TICKET_REOPENED; ticketId: string }
+  | {
+      type: JournalEntryType.TICKET_EXITED;
+      ticketId: string;
+      exitTime: Date;
+      session: SessionRecord;
+    }
+  | {
+      type: JournalEntryType.PAYMENT_RECEIVED;
+      ticketId: string;
+      payment: PaymentRecord;
+    }
+  | {
+      type: JournalEntryType.PAYMENT_REFUNDED;
+      ticketId: string;
+      paymentId: string;
+      amount: number;
+    }
+  | {
+      type: JournalEntryType.SURCHARGE_ADDED;
+      ticketId: string;
+      line: ChargeLine;
+    }
+  | { type: JournalEntryType.METER_READ; ticketId: string; totalKwh: number }
+  | {
+      type: JournalEntryType.RESERVATION_BOOKED;
+      reservation: ReservationState;
+    }
+  | {
+      type: JournalEntryType.RESERVATION_CLOSED;
+      reservationId: string;
+      status: ReservationStatus;
+    }
+  | { type: JournalEntryType.FLOOR_ADDED; floor: FloorConfig }
+  | {
+      type: JournalEntryType.SPOT_ADDED;
+      floorNumber: number;
+      spot: SpotConfig;
+    }
+  | { type: JournalEntryType.SPOT_REMOVED; spotId: string }
+  | { type: JournalEntryType.SPOT_MAINTENANCE; spotId: string; on: boolean }
+  | {
+      type: JournalEntryType.FLOOR_MAINTENANCE;
+      floorNumber: number;
+      on: boolean;
+    }
+  | { type: JournalEntryType.PASS_ISSUED; pass: PassState }
+  | { type: JournalEntryType.PASS_ENTRY_USED; passId: string; month: string };
+
+/**
+ * Fold journal entries into a saved state (the reducer).
+ * Plain data in, plain data out: the live lot is built once, at the end.
+ */
+function replayJournal(state: LotState, entries: JournalEntry[]): LotState {
+  const tickets = new Map(
+    state.tickets.map((ticket) => [ticket.ticketId, ticket]),
+  );
+  const ticketOf = (ticketId: string): TicketState => {
+    const ticket = tickets.get(ticketId);
+    if (!ticket)
+      throw new Error(`Journal refers to unknown ticket ${ticketId}`);
+    return ticket;
+  };
+  const floorOf = (floorNumber: number): FloorConfig => {
+    const floor = state.layout.floors.find((f) => f.floor === floorNumber);
+    if (!floor)
+      throw new Error(`Journal refers to unknown floor ${floorNumber}`);
+    return floor;
+  };
+  const spotOf = (spotId: string): SpotConfig => {
+    for (const floor of state.layout.floors) {
+      const spot = floor.spots.find((candidate) => candidate.id === spotId);
+      if (spot) return spot;
+    }
+    throw new Error(`Journal refers to unknown spot ${spotId}`);
+  };
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case JournalEntryType.TICKET_ISSUED:
+        state.tickets.push(entry.ticket);
+        tickets.set(entry.ticket.ticketId, entry.ticket);
+        break;
+      case JournalEntryType.TICKET_SETTLED: {
+        const ticket = ticketOf(entry.ticketId);
+        ticket.status = TicketStatus.PAID;
+        ticket.paidAt = entry.paidAt;
+        ticket.settledLines = entry.lines;
+        if (ticket.charging && !ticket.charging.stoppedAt) {
+          ticket.charging.stoppedAt = entry.paidAt;
+        }
+        break;
+      }
+      case JournalEntryType.TICKET_REOPENED: {
+        const ticket = ticketOf(entry.ticketId);
+        ticket.status = TicketStatus.ACTIVE;
+        ticket.paidAt = null;
+        ticket.settledLines = null;
+        break;
+      }
+      case JournalEntryType.TICKET_EXITED: {
+        const ticket = ticketOf(entry.ticketId);
+        ticket.status = TicketStatus.EXITED;
+        ticket.exitTime = entry.exitTime;
+        state.sessions.push(entry.session);
+        break;
+      }
+      case JournalEntryType.PAYMENT_RECEIVED:
+        ticketOf(entry.ticketId).payments.push(entry.payment);
+        break;
+      case JournalEntryType.PAYMENT_REFUNDED: {
+        const payment = ticketOf(entry.ticketId).payments.find(
+          (candidate) => candidate.paymentId === entry.paymentId,
+        );
+        if (!payment) {
+          throw new Error(
+            `Journal refers to unknown payment ${entry.paymentId}`,
+          );
+        }
+        payment.refunded = roundMoney(payment.refunded + entry.amount);
+        const session = state.sessions.find(
+          (candidate) => candidate.ticketId === entry.ticketId,
+        );
+        if (session) {
+          session.revenue = roundMoney(session.revenue - entry.amount);
+        }
+        break;
+      }
+      case JournalEntryType.SURCHARGE_ADDED:
+        ticketOf(entry.ticketId).surcharges.push(entry.line);
+        break;
+      case JournalEntryType.METER_READ: {
+        const { charging } = ticketOf(entry.ticketId);
+        if (charging) charging.energyKwh = entry.totalKwh;
+        break;
+      }
+      case JournalEntryType.RESERVATION_BOOKED:
+        state.reservations.push(entry.reservation);
+        break;
+      case JournalEntryType.RESERVATION_CLOSED: {
+        const reservation = state.reservations.find(
+          (candidate) => candidate.reservationId === entry.reservationId,
+        );
+        if (reservation) reservation.status = entry.status;
+        break;
+      }
+      case JournalEntryType.FLOOR_ADDED:
+        state.layout.floors.push(entry.floor);
+        break;
+      case JournalEntryType.SPOT_ADDED:
+        floorOf(entry.floorNumber).spots.push(entry.spot);
+        break;
+      case JournalEntryType.SPOT_REMOVED:
+        for (const floor of state.layout.floors) {
+          floor.spots = floor.spots.filter((spot) => spot.id !== entry.spotId);
+        }
+        break;
+      case JournalEntryType.SPOT_MAINTENANCE:
+        spotOf(entry.spotId).maintenance = entry.on;
+        break;
+      case JournalEntryType.FLOOR_MAINTENANCE:
+        floorOf(entry.floorNumber).maintenance = entry.on;
+        break;
+      case JournalEntryType.PASS_ISSUED:
+        state.passes.push(entry.pass);
+        break;
+      case JournalEntryType.PASS_ENTRY_USED: {
+        const pass = state.passes.find((p) => p.passId === entry.passId);
+        if (pass) {
+          const used = pass.entriesByMonth[entry.month] ?? 0;
+          pass.entriesByMonth[entry.month] = used + 1;
+        }
+        break;
+      }
+    }
+  }
+  return state;
+}
+
+interface JournalOptions {
+  snapshotEvery?: number; // entries between snapshots, defaults to 100
+}
+
+interface Snapshot {
+  seq: number; // last journal entry included
+  state: LotState;
+}
+
+// What survived on disk
+interface JournalContents {
+  snapshot: Snapshot | null;
+  entries: JournalEntry[]; // written after the snapshot, oldest first
+  tornTail: boolean; // the last record was cut short by a crash
+}
+
+class LotJournal {
+  private readonly journalFile: string;
+  private readonly snapshotFile: string;
+  private readonly snapshotEvery: number;
+  private seq = 0;
+  private sinceSnapshot = 0;
+
+  constructor(directory: string, options: JournalOptions = {}) {
+    this.journalFile = path.join(directory, 'journal.jsonl');
+    this.snapshotFile = path.join(directory, 'snapshot.json');
+    this.snapshotEvery = options.snapshotEvery ?? 100;
+  }
+
+  get snapshotDue(): boolean {
+    return this.sinceSnapshot >= this.snapshotEvery;
+  }
+
+  /**
+   * Read the snapshot and the entries after it, and carry on numbering
+   * from the last one. Only the final record may be damaged; anything
+   * earlier means the file itself is corrupt.
+   */
+  load(): JournalContents {
+    const snapshot = existsSync(this.snapshotFile)
+      ? (JSON.parse(
+          readFileSync(this.snapshotFile, 'utf8'),
+          reviveDates,
+        ) as Snapshot)
+      : null;
+    const text = existsSync(this.journalFile)
+      ? readFileSync(this.journalFile, 'utf8')
+      : '';
+
+    // Every complete record ends in a newline; a crash leaves a fragment
+    const lines = text.split('\n');
+    const fragment = lines.pop() ?? '';
+    const entries: JournalEntry[] = [];
+    this.seq = snapshot?.seq ?? 0;
+
+    lines.forEach((line, i) => {
+      const space = line.indexOf(' ');
+      const payload = line.slice(space + 1);
+      if (space < 0 || line.slice(0, space) !== checksum(payload)) {
+        throw new Error(`Journal record ${i + 1} is corrupt`);
+      }
+      const record = JSON.parse(payload, reviveDates) as {
+        seq: number;
+        entry: JournalEntry;
+      };
+      // Written before a crash cut the journal reset short
+      if (record.seq <= this.seq) return;
+      entries.push(record.entry);
+      this.seq = record.seq;
+    });
+
+    this.sinceSnapshot = entries.length;
+    return { snapshot, entries, tornTail: fragment !== '' };
+  }
+
+  append(entry: JournalEntry): void {
+    const payload = JSON.stringify({ seq: ++this.seq, entry });
+    appendFileSync(this.journalFile, `${checksum(payload)} ${payload}\n`);
+    this.sinceSnapshot++;
+  }
+
+  // Rename is atomic, so a crash leaves either the old or the new one
+  writeSnapshot(state: LotState): void {
+    const snapshot: Snapshot = { seq: this.seq, state };
+    const temp = `${this.snapshotFile}.tmp`;
+    writeFileSync(temp, JSON.stringify(snapshot));
+    renameSync(temp, this.snapshotFile);
+
+    writeFileSync(this.journalFile, ''); // also drops a torn last record
+    this.sinceSnapshot = 0;
+  }
+}
+
+function reservationState(reservation: Reservation): ReservationState {
+  return {
+    reservationId: reservation.reservationId,
+    vehicleType: reservation.vehicleType,
+    spotId: reservation.spot.spotId,
+    start: reservation.start,
+    end: reservation.end,
+    estimatedFee: reservation.estimatedFee,
+    status: reservation.status,
+  };
+}
+
+function passState(pass: ParkingPass): PassState {
+  return {
+    passId: pass.passId,
+    vehicleNumber: pass.vehicleNumber,
+    vehicleType: pass.vehicleType,
+    type: pass.type,
+    validFrom: pass.validFrom,
+    validUntil: pass.validUntil,
+    discountPercent: pass.discountPercent,
+    entriesPerMonth: pass.entriesPerMonth,
+    reservedFloors: [...pass.reservedFloors],
+    entriesByMonth: pass.entryCounts(),
+  };
+}
+
+function createVehicle(saved: VehicleState): Vehicle {
+  switch (saved.type) {
+    case VehicleType.BIKE:
+      return new Bike(saved.vehicleNumber, saved.attributes);
+    case VehicleType.CAR:
+      return new Car(saved.vehicleNumber, saved.attributes);
+    case VehicleType.TRUCK:
+      return new Truck(saved.vehicleNumber, saved.attributes);
+  }
+}
+
+function checksum(payload: string): string {
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
+
+// JSON has no dates: turn ISO timestamps back into Date objects
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && ISO_TIMESTAMP.test(value)
+    ? new Date(value)
+    : value;
+}
+
+/***********************************************************************
+ * STEP 24: ANALYTICS (Reports over Completed Sessions)
+ *
+ * SPEAK:
+ * "A ticket only knows when it entered. On exit the lot writes a
+ *  session record: who, where, how long, how much. Every report is
+ *  a fold over those records for a date range, so the report doesn't
+ *  touch live lot state and is easy to test with made-up sessions."
+ *
+ * DEFINITIONS:
+ * - Occupancy: average spots in use per time bucket, per floor and
+ *   SpotType, as a count and as a share of capacity
+ * - Peak hours: hours of the day with the highest average occupancy
+ * - Turnover: completed stays per spot per day
+ * - Revenue: net amount paid, counted on the day the vehicle left
+ ***********************************************************************/
+
+interface SessionRecord {
+  ticketId: string;
+  vehicleType: VehicleType;
+  floorNumber: number;
+  spotId: string;
+  spotType: SpotType;
+  entryTime: Date;
+  exitTime: Date | null; // null while the vehicle is inside
+  revenue: number; // net of refunds
+}
+
+interface SpotCapacity {
+  floorNumber: number;
+  spotType: SpotType;
+  spots: number;
+}
+
+interface UsageReportInput {
+  from: Date;
+  to: Date; // exclusive
+  asOf: Date; // stays still open are counted up to here
+  bucketMinutes: number;
+  sessions: SessionRecord[];
+  capacity: SpotCapacity[];
+}
+
+interface OccupancyRow {
+  bucket: string; // local start time, e.g. 2024-01-10 09:00
+  floorNumber: number;
+  spotType: SpotType;
+  capacity: number;
+  occupied: number; // average spots in use
+  rate: number; // occupied / capacity
+}
+
+interface PeakHourRow {
+  hour: number; // 0-23
+  occupied: number; // average spots in use across the lot
+}
+
+interface DwellRow {
+  vehicleType: VehicleType;
+  sessions: number;
+  averageMinutes: number;
+}
+
+interface TurnoverRow {
+  floorNumber: number;
+  spotType: SpotType;
+  capacity: number;
+  sessions: number;
+  perSpotPerDay: number;
+}
+
+interface RevenueRow {
+  day: string; // local date, e.g. 2024-01-10
+  floorNumber: number;
+  sessions: number;
+  revenue: number;
+}
+
+enum ReportSection {
+  OCCUPANCY = 'OCCUPANCY',
+  PEAK_HOURS = 'PEAK_HOURS',
+  DWELL = 'DWELL',
+  TURNOVER = 'TURNOVER',
+  REVENUE = 'REVENUE',
+}
+
+class UsageReport {
+  readonly occupancy: OccupancyRow[];
+  readonly peakHours: PeakHourRow[];
+  readonly dwell: DwellRow[];
+  readonly turnover: TurnoverRow[];
+  readonly revenue: RevenueRow[];
+
+  constructor(private readonly input: UsageReportInput) {
+    if (!(input.from < input.to) || !(input.bucketMinutes > 0)) {
+      throw new ParkingLotError(
+        ParkingErrorCode.INVALID_REPORT_RANGE,
+        'A report needs a range that ends after it starts, and buckets > 0',
+      );
+    }
+    // Exits in range; these are the stays dwell, turnover and revenue see
+    const completed = input.sessions.filter(
+      (session) =>
+        session.exitTime !== null &&
+        session.exitTime >= input.from &&
+        session.exitTime < input.to,
+    );
+
+    this.occupancy = this.buildOccupancy();
+    this.peakHours = this.buildPeakHours();
+    this.dwell = this.buildDwell(completed);
+    this.turnover = this.buildTurnover(completed);
+    this.revenue = this.buildRevenue(completed);
+  }
+
+  toJson(): string {
+    return JSON.stringify(
+      {
+        from: formatLocal(this.input.from),
+        to: formatLocal(this.input.to),
+        occupancy: this.occupancy,
+        peakHours: this.peakHours,
+        dwell: this.dwell,
+        turnover: this.turnover,
+        revenue: this.revenue,
+      },
+      null,
+      2,
+    );
+  }
+
+  // One section per CSV, since each has its own columns
+  toCsv(section: ReportSection): string {
+    switch (section) {
+      case ReportSection.OCCUPANCY:
+        return toCsv(
+          ['bucket', 'floorNumber', 'spotType', 'capacity', 'occupied', 'rate'],
+          this.occupancy,
+        );
+      case ReportSection.PEAK_HOURS:
+        return toCsv(['hour', 'occupied'], this.peakHours);
+      case ReportSection.DWELL:
+        return toCsv(['vehicleType', 'sessions', 'averageMinutes'], this.dwell);
+      case ReportSection.TURNOVER:
+        return toCsv(
+          ['floorNumber', 'spotType', 'capacity', 'sessions', 'perSpotPerDay'],
+          this.turnover,
+        );
+      case ReportSection.REVENUE:
+        return toCsv(
+          ['day', 'floorNumber', 'sessions', 'revenue'],
+          this.revenue,
+        );
+    }
+  }
+
+  // Spot-minutes in use, spread over the buckets each stay overlaps
+  private buildOccupancy(): OccupancyRow[] {
+    const { from, to, asOf, bucketMinutes, sessions, capacity } = this.input;
+    const bucketMs = bucketMinutes * MS_PER_MINUTE;
+    const buckets = Math.ceil((to.getTime() - from.getTime()) / bucketMs);
+    const usedMs = new Map<string, number[]>(); // floor/type -> per bucket
+
+    for (const session of sessions) {
+      const start = Math.max(session.entryTime.getTime(), from.getTime());
+      const end = Math.min((session.exitTime ?? asOf).getTime(), to.getTime());
+      if (start >= end) continue;
+
+      const key = `${session.floorNumber}/${session.spotType}`;
+      const perBucket = usedMs.get(key) ?? new Array<number>(buckets).fill(0);
+      usedMs.set(key, perBucket);
+
+      const first = Math.floor((start - from.getTime()) / bucketMs);
+      const last = Math.floor((end - 1 - from.getTime()) / bucketMs);
+      for (let b = first; b <= last; b++) {
+        const bucketStart = from.getTime() + b * bucketMs;
+        const overlap =
+          Math.min(end, bucketStart + bucketMs) - Math.max(start, bucketStart);
+        perBucket[b] += overlap;
+      }
+    }
+
+    const rows: OccupancyRow[] = [];
+    for (let b = 0; b < buckets; b++) {
+      const bucketStart = new Date(from.getTime() + b * bucketMs);
+      const bucketEnd = Math.min(
+        bucketStart.getTime() + bucketMs,
+        to.getTime(),
+      );
+      const length = bucketEnd - bucketStart.getTime();
+
+      for (const { floorNumber, spotType, spots } of capacity) {
+        const used = usedMs.get(`${floorNumber}/${spotType}`)?.[b] ?? 0;
+        const occupied = round2(used / length);
+        rows.push({
+          bucket: formatLocal(bucketStart),
+          floorNumber,
+          spotType,
+          capacity: spots,
+          occupied,
+          rate: round2(occupied / spots),
+        });
+      }
+    }
+    return rows;
+  }
+
+  // Busiest hours of the day, averaged over every day in the range
+  private buildPeakHours(top = 3): PeakHourRow[] {
+    const byHour = new Map<
+      number,
+      { occupied: number; buckets: Set<string> }
+    >();
+    for (const row of this.occupancy) {
+      const hour = Number(row.bucket.slice(11, 13));
+      const totals = byHour.get(hour) ?? { occupied: 0, buckets: new Set() };
+      totals.occupied += row.occupied;
+      totals.buckets.add(row.bucket);
+      byHour.set(hour, totals);
+    }
+
+    return [...byHour.entries()]
+      .map(([hour, totals]) => ({
+        hour,
+        occupied: round2(totals.occupied / totals.buckets.size),
+      }))
+      .sort((a, b) => b.occupied - a.occupied || a.hour - b.hour)
+      .slice(0, top);
+  }
+
+  private buildDwell(completed: SessionRecord[]): DwellRow[] {
+    return Object.values(VehicleType).flatMap((vehicleType) => {
+      const stays = completed.filter(
+        (session) => session.vehicleType === vehicleType,
+      );
+      if (stays.length === 0) return [];
+
+      const totalMs = stays.reduce(
+        (sum, session) =>
+          sum + session.exitTime!.getTime() - session.entryTime.getTime(),
+        0,
+      );
+      return [
+        {
+          vehicleType,
+          sessions: stays.length,
+          averageMinutes: round2(totalMs / stays.length / MS_PER_MINUTE),
+        },
+      ];
+    });
+  }
+
+  private buildTurnover(completed: SessionRecord[]): TurnoverRow[] {
+    const days =
+      (this.input.to.getTime() - this.input.from.getTime()) / MS_PER_DAY;
+
+    return this.input.capacity.map(({ floorNumber, spotType, spots }) => {
+      const sessions = completed.filter(
+        (session) =>
+          session.floorNumber === floorNumber && session.spotType === spotType,
+      ).length;
+      return {
+        floorNumber,
+        spotType,
+        capacity: spots,
+        sessions,
+        perSpotPerDay: round2(sessions / spots / days),
+      };
+    });
+  }
+
+  private buildRevenue(completed: SessionRecord[]): RevenueRow[] {
+    const rows = new Map<string, RevenueRow>();
+    for (const session of completed) {
+      const day = formatLocal(session.exitTime!).slice(0, 10);
+      const key = `${day}/${session.floorNumber}`;
+      const row = rows.get(key) ?? {
+        day,
+        floorNumber: session.floorNumber,
+        sessions: 0,
+        revenue: 0,
+      };
+      row.sessions++;
+      row.revenue = roundMoney(row.revenue + session.revenue);
+      rows.set(key, row);
+    }
+
+    return [...rows.values()].sort(
+      (a, b) => a.day.localeCompare(b.day) || a.floorNumber - b.floorNumber,
+    );
+  }
+}
+
+function toCsv<T>(columns: (keyof T & string)[], rows: T[]): string {
+  const escape = (value: unknown): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.join(','),
+    ...rows.map((row) =>
+      columns.map((column) => escape(row[column])).join(','),
+    ),
+  ].join('\n');
+}
+
+// Local time as YYYY-MM-DD HH:mm, the way an operator reads it
+function formatLocal(time: Date): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return (
+    `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())} ` +
+    `${pad(time.getHours())}:${pad(time.getMinutes())}`
+  );
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/***********************************************************************
+ * STEP 25: HTTP API + CLI (Adapter Pattern)
+ *
+ * SPEAK:
+ * "The HTTP layer is an adapter: it turns JSON requests into calls
+ *  on ParkingLot and domain errors into status codes. No parking
+ *  rule lives here. Every error code maps to exactly one status in
+ *  a table the compiler checks, so a new code can't be forgotten.
+ *  The CLI is a thin client of the same API."
+ *
+ * ENDPOINTS:
+ *   POST   /vehicles                       park    {vehicleNumber, type, attributes?}
+ *   GET    /tickets/:id                    ticket and what it owes
+ *   POST   /tickets/:id/payments           pay     {method, amount?}
+ *   POST   /tickets/:id/exit               unpark  {method?} pays the balance first
+ *   GET    /availability                   free spots per floor and type
+ *   POST   /admin/floors                   add floor {floor, spots: [...]}
+ *   POST   /admin/floors/:n/spots          add spot {id, type, ...}
+ *   PUT    /admin/floors/:n/maintenance    {on}
+ *   DELETE /admin/spots/:id                remove spot
+ *   PUT    /admin/spots/:id/maintenance    {on}
+ *
+ * Errors: {"error": {"code": "NO_SPOT_AVAILABLE", "message": "..."}}
+ ***********************************************************************/
+
+const HTTP_STATUS: Record<ParkingErrorCode, number> = {
+  [ParkingErrorCode.NO_SPOT_AVAILABLE]: 409,
+  [ParkingErrorCode.VEHICLE_ALREADY_PARKED]: 409,
+  [ParkingErrorCode.TICKET_NOT_FOUND]: 404,
+  [ParkingErrorCode.TICKET_FORGED]: 403,
+  [ParkingErrorCode.TICKET_ALREADY_EXITED]: 409,
+  [ParkingErrorCode.INVALID_TICKET_STATE]: 409,
+  [ParkingErrorCode.HOLD_NOT_FOUND]: 404,
+  [ParkingErrorCode.RESERVATION_NOT_FOUND]: 404,
+  [ParkingErrorCode.RESERVATION_CONFLICT]: 409,
+  [ParkingErrorCode.INVALID_RESERVATION]: 422,
+  [ParkingErrorCode.PAYMENT_REQUIRED]: 402,
+  [ParkingErrorCode.PAYMENT_DECLINED]: 402,
+  [ParkingErrorCode.PAYMENT_FAILED]: 502, // the gateway failed, not us
+  [ParkingErrorCode.INVALID_PAYMENT]: 422,
+  [ParkingErrorCode.INVALID_METER_READING]: 422,
+  [ParkingErrorCode.SPOT_NOT_FOUND]: 404,
+  [ParkingErrorCode.FLOOR_NOT_FOUND]: 404,
+  [ParkingErrorCode.SPOT_OCCUPIED]: 409,
+  [ParkingErrorCode.INVALID_LAYOUT]: 422,
+  [ParkingErrorCode.INVALID_REPORT_RANGE]: 400,
+  [ParkingErrorCode.INVALID_PASS]: 422,
+};
+
+// Transport-level failure: bad request, unknown route, or a reply
+// the client got back from the server
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp; // named groups become params
+  handle: (
+    params: Record<string, string>,
+    body: unknown,
+  ) => ApiResponse | Promise<ApiResponse>;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+class ParkingLotServer {
+  private readonly server: http.Server;
+  private readonly routes: Route[];
+
+  constructor(private readonly lot: ParkingLot) {
+    this.routes = this.buildRoutes();
+    this.server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  // Port 0 picks a free port; the port actually used is returned
+  listen(port = 0): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => {
+        resolve((this.server.address() as { port: number }).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections(); // idle keep-alive sockets too
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    let response: ApiResponse;
+    try {
+      response = await this.dispatch(req);
+    } catch (err) {
+      response = toErrorResponse(err);
+    }
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  }
+
+  private async dispatch(req: http.IncomingMessage): Promise<ApiResponse> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const matches = this.routes
+      .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+      .filter((candidate) => candidate.match !== null);
+
+    if (matches.length === 0) {
+      throw new HttpError(404, 'ROUTE_NOT_FOUND', `No route ${url.pathname}`);
+    }
+    const found = matches.find(({ route }) => route.method === req.method);
+    if (!found) {
+      throw new HttpError(
+        405,
+        'METHOD_NOT_ALLOWED',
+        `${req.method} is not supported on ${url.pathname}`,
+      );
+    }
+
+    const params: Record<string, string> = {};
+    for (const [name, value] of Object.entries(found.match!.groups ?? {})) {
+      params[name] = decodeURIComponent(value);
+    }
+    return found.route.handle(params, await readJsonBody(req));
+  }
+
+  private buildRoutes(): Route[] {
+    const lot = this.lot;
+    const ok = (body: unknown, status = 200): ApiResponse => ({ status, body });
+
+    return [
+      {
+        method: 'POST',
+        pattern: /^\/vehicles$/,
+        handle: (_, body) => {
+          const ticket = lot.parkVehicle(vehicleFromRequest(body));
+          return ok(ticketView(ticket, lot.quote(ticket)), 201);
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/tickets\/(?<ticketId>[^/]+)$/,
+        handle: ({ ticketId }) => {
+          const ticket = lot.findTicket(ticketId);
+          if (!ticket) {
+            throw new ParkingLotError(
+              ParkingErrorCode.TICKET_NOT_FOUND,
+              `Unknown ticket ${ticketId}`,
+            );
+          }
+          return ok(ticketView(ticket, lot.quote(ticket)));
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/tickets\/(?<ticketId>[^/]+)\/payments$/,
+        handle: async ({ ticketId }, body) => {
+          const { method, amount } = paymentFromRequest(body, true);
+          return ok(await lot.pay(ticketId, method!, amount));
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/tickets\/(?<ticketId>[^/]+)\/exit$/,
+        handle: async ({ ticketId }, body) => {
+          const { method } = paymentFromRequest(body, false);
+          if (method && lot.quote(ticketId).balance > 0) {
+            await lot.pay(ticketId, method);
+          }
+          const receipt = lot.unparkVehicle(ticketId);
+          return ok({ ...receipt, text: receipt.format() });
+        },
+      },
+      {
+        method: 'GET',
+        pattern: /^\/availability$/,
+        handle: () => ok(lot.availability()),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/floors$/,
+        handle: (_, body) => {
+          const [floor] = buildLayout({ floors: [body] });
+          lot.addFloor(floor);
+          return ok(layoutOf([floor]).floors[0], 201);
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/admin\/floors\/(?<floorNumber>\d+)\/spots$/,
+        handle: ({ floorNumber }, body) => {
+          // Validated as a one-spot floor so the same rules apply
+          const [floor] = buildLayout({
+            floors: [{ floor: Number(floorNumber), spots: [body] }],
+          });
+          const [spot] = floor.spots;
+          lot.addSpot(Number(floorNumber), spot);
+          return ok(spotConfigOf(spot), 201);
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/admin\/floors\/(?<floorNumber>\d+)\/maintenance$/,
+        handle: ({ floorNumber }, body) => {
+          lot.setFloorMaintenance(Number(floorNumber), switchFromRequest(body));
+          return ok(lot.availability());
+        },
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/admin\/spots\/(?<spotId>[^/]+)$/,
+        handle: ({ spotId }) => {
+          lot.removeSpot(spotId);
+          return ok({ removed: spotId });
+        },
+      },
+      {
+        method: 'PUT',
+        pattern: /^\/admin\/spots\/(?<spotId>[^/]+)\/maintenance$/,
+        handle: ({ spotId }, body) => {
+          lot.setSpotMaintenance(spotId, switchFromRequest(body));
+          return ok(lot.availability());
+        },
+      },
+    ];
+  }
+}
+
+function toErrorResponse(err: unknown): ApiResponse {
+  if (err instanceof LayoutConfigError) {
+    return {
+      status: HTTP_STATUS[err.code],
+      body: {
+        error: { code: err.code, message: err.message, issues: err.issues },
+      },
+    };
+  }
+  if (err instanceof ParkingLotError || err instanceof HttpError) {
+    const status =
+      err instanceof HttpError ? err.status : HTTP_STATUS[err.code];
+    return {
+      status,
+      body: { error: { code: err.code, message: err.message } },
+    };
+  }
+  // Not a rule the caller broke: don't leak internals
+  console.error(err);
+  return {
+    status: 500,
+    body: { error: { code: 'INTERNAL_ERROR', message: 'Internal error' } },
+  };
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      // Keep reading and dropping the rest, so the socket stays open
+      // long enough for the 413 to reach the client
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        tooLarge = true;
+        chunks.length = 0;
+        reject(
+          new HttpError(413, 'BODY_TOO_LARGE', 'Request body is too large'),
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('error', reject);
+    req.on('end', () => {
+      if (tooLarge) return;
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (text === '') return resolve({});
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(new HttpError(400, 'INVALID_JSON', 'Body is not valid JSON'));
+      }
+    });
+  });
+}
+
+function badRequest(message: string): never {
+  throw new HttpError(400, 'INVALID_REQUEST', message);
+}
+
+function vehicleFromRequest(body: unknown): Vehicle {
+  if (!isRecord(body)) badRequest('Body must be a JSON object');
+  const { vehicleNumber, type, attributes = {} } = body;
+
+  if (typeof vehicleNumber !== 'string' || vehicleNumber.trim() === '') {
+    badRequest('vehicleNumber must be a non-empty string');
+  }
+  if (!Object.values(VehicleType).includes(type as VehicleType)) {
+    badRequest(`type must be one of ${Object.values(VehicleType).join(', ')}`);
+  }
+  if (!isRecord(attributes)) badRequest('attributes must be an object');
+
+  try {
+    return createVehicle({
+      vehicleNumber,
+      type: type as VehicleType,
+      attributes: attributes as VehicleAttributes,
+    });
+  } catch (err) {
+    return badRequest((err as Error).message); // e.g. charging a non-EV
+  }
+}
+
+function paymentFromRequest(
+  body: unknown,
+  required: boolean,
+): { method?: PaymentMethod; amount?: number } {
+  if (!isRecord(body)) badRequest('Body must be a JSON object');
+  const { method, amount } = body;
+
+  if (method === undefined && !required) return {};
+  if (!Object.values(PaymentMethod).includes(method as PaymentMethod)) {
+    badRequest(
+      `method must be one of ${Object.values(PaymentMethod).join(', ')}`,
+    );
+  }
+  if (amount !== undefined && typeof amount !== 'number') {
+    badRequest('amount must be a number');
+  }
+  return {
+    method: method as PaymentMethod,
+    amount: amount as number | undefined,
+  };
+}
+
+function switchFromRequest(body: unknown): boolean {
+  if (!isRecord(body) || typeof body.on !== 'boolean') {
+    badRequest('Body must be {"on": true|false}');
+  }
+  return body.on as boolean;
+}
+
+function ticketView(ticket: Ticket, bill: Bill): Record<string, unknown> {
+  return {
+    ticketId: ticket.ticketId,
+    vehicleNumber: ticket.vehicle.vehicleNumber,
+    vehicleType: ticket.vehicle.type,
+    spotId: ticket.spot.spotId,
+    status: ticket.getStatus(),
+    entryTime: ticket.entryTime,
+    paidAt: ticket.getPaidAt(),
+    exitTime: ticket.getExitTime(),
+    total: bill.total,
+    paid: bill.paid,
+    balance: bill.balance,
+  };
+}
+
+class ParkingLotClient {
+  constructor(private readonly baseUrl: string) {}
+
+  request<T>(method: string, route: string, body?: unknown): Promise<T> {
+    const payload = body === undefined ? '' : JSON.stringify(body);
+
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        new URL(route, this.baseUrl),
+        {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(payload),
+          },
+        },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('error', reject);
+          res.on('end', () => {
+            const status = res.statusCode ?? 500;
+            let reply;
+            try {
+              reply = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+            } catch {
+              // e.g. a proxy's HTML error page or a truncated reply
+              reject(
+                new HttpError(
+                  status >= 400 ? status : 502,
+                  'INVALID_RESPONSE',
+                  `Expected JSON from ${method} ${route} (HTTP ${status})`,
+                ),
+              );
+              return;
+            }
+            if (status >= 400) {
+              const { code, message } = reply.error ?? {};
+              reject(new HttpError(status, code, message));
+            } else {
+              resolve(reply as T);
+            }
+          });
+        },
+      );
+      req.on('error', reject);
+      req.end(payload);
+    });
+  }
+}
+
+const CLI_USAGE = [
+  'Usage:',
+  '  park <CAR|BIKE|TRUCK> <vehicleNumber>',
+  '  exit <ticketId> [CASH|CARD|UPI|WALLET]',
+  '  status <ticketId>',
+  '  floors',
+  '  serve [--layout <file.json>]   start the API (default layout: demo lot)',
+  'Options: --port <n> (default 3000)',
+].join('\n');
+
+// Runs one CLI command against the API and returns what to print
+async function runCli(args: string[], baseUrl: string): Promise<string> {
+  const client = new ParkingLotClient(baseUrl);
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'park': {
+      const [type, vehicleNumber] = rest;
+      if (!type || !vehicleNumber) return CLI_USAGE;
+      const ticket = await client.request<Record<string, unknown>>(
+        'POST',
+        '/vehicles',
+        { type: type.toUpperCase(), vehicleNumber },
+      );
+      return `Parked ${ticket.vehicleNumber} in ${ticket.spotId} | ticket ${ticket.ticketId}`;
+    }
+    case 'exit': {
+      const [ticketId, method = PaymentMethod.CASH] = rest;
+      if (!ticketId) return CLI_USAGE;
+      const receipt = await client.request<{ text: string }>(
+        'POST',
+        `/tickets/${encodeURIComponent(ticketId)}/exit`,
+        { method: method.toUpperCase() },
+      );
+      return receipt.text;
+    }
+    case 'status': {
+      const [ticketId] = rest;
+      if (!ticketId) return CLI_USAGE;
+      const ticket = await client.request<Record<string, unknown>>(
+        'GET',
+        `/tickets/${encodeURIComponent(ticketId)}`,
+      );
+      return (
+        `${ticket.ticketId} | ${ticket.vehicleNumber} | ${ticket.spotId} | ` +
+        `${ticket.status} | owes ${Number(ticket.balance).toFixed(2)}`
+      );
+    }
+    case 'floors': {
+      const floors = await client.request<FloorAvailability[]>(
+        'GET',
+        '/availability',
+      );
+      return floors
+        .map(
+          ({ floorNumber, free }) =>
+            `Floor ${floorNumber}: ` +
+            Object.values(SpotType)
+              .map((type) => `${type} ${free[type]}`)
+              .join(' | '),
+        )
+        .join('\n');
+    }
+    default:
+      return CLI_USAGE;
+  }
+}
+
+function formatCliError(err: unknown): string {
+  if (err instanceof HttpError) {
+    return `Error ${err.code} (HTTP ${err.status}): ${err.message}`;
+  }
+  return `Error: ${(err as Error).message}`; // e.g. server not running
+}
+
+// --name value pairs out of the argument list; the rest is positional
+function parseFlags(args: string[]): {
+  positional: string[];
+  flags: Record<string, string>;
+} {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      flags[args[i].slice(2)] = args[++i] ?? '';
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, flags };
+}
+
+// SECTION : Console for Logging out
+const expectError = async (
+  label: string,
+  action: () => unknown,
+): Promise<void> => {
+  try {
+    await action();
+    console.log(`${label}: no error?!`);
+  } catch (err) {
+    console.log(`${label}: ${(err as ParkingLotError).code}`);
+  }
+};
+
+// mulberry32: the same "random" numbers on every run for the same seed
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Waits n event-loop turns. Unlike timers, turns always run in the same
+// order, so interleavings built from them repeat exactly.
+const loopTurns = async (n: number): Promise<void> => {
+  for (let i = 0; i < n; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+const buildFloors = (): ParkingFloor[] => [
+  new ParkingFloor(1, [
+    new ParkingSpot('A1-C1', SpotType.COMPACT, 40),
+    new ParkingSpot('A1-B1', SpotType.BIKE, 50),
+    new ParkingSpot('A1-C2', SpotType.COMPACT, 10),
+  ]),
+  new ParkingFloor(2, [
+    new ParkingSpot('A2-B1', SpotType.BIKE, 5),
+    new ParkingSpot('A2-C1', SpotType.COMPACT, 60),
+  ]),
+];
+
+// Sections 1️⃣-6️⃣ run inside a function, so importing this file has no
+// side effects
+const runBasicDemo = async (): Promise<void> => {
+  // 1️⃣ Create parking spots
+  const floor1Spots: ParkingSpot[] = [
+    new ParkingSpot('F1-B1', SpotType.BIKE),
+    new ParkingSpot('F1-C1', SpotType.COMPACT),
+    new ParkingSpot('F1-L1', SpotType.LARGE),
+  ];
+
+  const floor2Spots: ParkingSpot[] = [
+    new ParkingSpot('F2-C1', SpotType.COMPACT),
+    new ParkingSpot('F2-L1', SpotType.LARGE),
+  ];
+
+  // 2️⃣ Create parking floors
+  const floor1 = new ParkingFloor(1, floor1Spots);
+  const floor2 = new ParkingFloor(2, floor2Spots);
+
+  // 3️⃣ Create parking lot with multiple floors
+  const parkingLot = new ParkingLot([floor1, floor2]);
+
+  // 4️⃣ Create vehicles
+  const bike = new Bike('KA-01-BIKE-1234');
+  const car = new Car('KA-01-CAR-5678');
+  const truck = new Truck('KA-01-TRUCK-9999');
+
+  // 5️⃣ Park vehicles
+  console.log('---- Parking Vehicles ----');
+
+  const bikeTicket = parkingLot.parkVehicle(bike);
+  console.log(
+    `Bike parked | Ticket: ${bikeTicket.ticketId} | Spot: ${bikeTicket.spot.spotId}`,
+  );
+
+  const carTicket = parkingLot.parkVehicle(car);
+  console.log(
+    `Car parked | Ticket: ${carTicket.ticketId} | Spot: ${carTicket.spot.spotId}`,
+  );
+
+  const truckTicket = parkingLot.parkVehicle(truck);
+  console.log(
+    `Truck parked | Ticket: ${truckTicket.ticketId} | Spot: ${truckTicket.spot.spotId}`,
+  );
+
+  // 6️⃣ Pay and unpark a vehicle
+  console.log('---- Unparking Vehicle ----');
+
+  await expectError('exit before paying', () =>
+    parkingLot.unparkVehicle(carTicket),
+  ); // PAYMENT_REQUIRED
+  await parkingLot.pay(carTicket, PaymentMethod.CASH);
+
+  const carReceipt = parkingLot.unparkVehicle(carTicket);
+  console.log(`Car with ticket ${carTicket.ticketId} has exited`);
+  console.log(carReceipt.format()); // minimum 1 hour: TOTAL: 20.00
+};
+
+// 7️⃣ Pricing with a fake clock (2024-06-07 is a Friday)
+const runPricingDemo = async (): Promise<void> => {
+  console.log('---- Pricing ----');
+
+  const clock = new FakeClock(new Date('2024-06-07T18:00:00Z'));
+  const hourly = new RateCard({
+    [VehicleType.CAR]: 20,
+    [VehicleType.BIKE]: 10,
+  });
+  const pricing = new DailyCapPricing(
+    new WeekendNightPricing(
+      new TieredHourlyPricing(
+        new RateCard({ [VehicleType.CAR]: 50, [VehicleType.BIKE]: 20 }),
+        hourly,
+      ),
+      { weekendMultiplier: 1.5, nightMultiplier: 0.5 },
+    ),
+    300,
+  );
+
+  const pricedLot = new ParkingLot(
+    [new ParkingFloor(1, [new ParkingSpot('P1-C1', SpotType.COMPACT)])],
+    { pricing, clock },
+  );
+
+  // Fri 18:00 → 20:30: first hour 50 + 2 later hours at 20
+  const shortStay = pricedLot.parkVehicle(new Car('KA-02-CAR-1111'));
+  clock.advanceMinutes(150);
+  await pricedLot.pay(shortStay, PaymentMethod.CASH);
+  console.log(pricedLot.unparkVehicle(shortStay).format()); // TOTAL: 90.00
+
+  // Fri 20:30 → Sun 20:30: nights at half price, weekend at +50%,
+  // each 24h window capped at 300
+  const longStay = pricedLot.parkVehicle(new Car('KA-02-CAR-2222'));
+  clock.advanceMinutes(48 * 60);
+  await pricedLot.pay(longStay, PaymentMethod.CASH);
+  console.log(pricedLot.unparkVehicle(longStay).format());
+};
+
+// 8️⃣ Allocation strategies
+const runAllocationDemo = (): void => {
+  console.log('---- Allocation ----');
+
+  const strategies: [string, SpotAllocationStrategy][] = [
+    ['best fit', new BestFitAllocation()],
+    ['nearest', new NearestToEntryAllocation()],
+    ['lowest floor', new LowestFloorFirstAllocation()],
+    ['spread load', new SpreadLoadAllocation()],
+  ];
+
+  for (const [name, allocation] of strategies) {
+    const lot = new ParkingLot(buildFloors(), { allocation });
+    const spots = [
+      lot.parkVehicle(new Car('CAR-1')).spot.spotId,
+      lot.parkVehicle(new Bike('BIKE-1')).spot.spotId,
+      lot.parkVehicle(new Car('CAR-2')).spot.spotId,
+    ];
+    console.log(`${name}: ${spots.join(', ')}`);
+  }
+  // best fit: A1-C2, A1-B1, A1-C1       (bike gets a BIKE spot, not COMPACT)
+  // nearest: A1-C2, A2-B1, A1-C1
+  // lowest floor: A1-C2, A1-B1, A1-C1
+  // spread load: A1-C2, A2-B1, A1-C1
+};
+
+// 9️⃣ Ticket registry: validation and lost tickets
+const runTicketRegistryDemo = async (): Promise<void> => {
+  console.log('---- Ticket Registry ----');
+
+  const registryLot = new ParkingLot(buildFloors(), { lostTicketPenalty: 150 });
+  const ticketA = registryLot.parkVehicle(new Car('KA-03-CAR-0001'));
+  console.log(ticketA.ticketId, ticketA.getStatus()); // TKT-000001 ACTIVE
+
+  await expectError('double park', () =>
+    registryLot.parkVehicle(new Car('KA-03-CAR-0001')),
+  ); // VEHICLE_ALREADY_PARKED
+  await expectError('unknown ticket', () =>
+    registryLot.unparkVehicle('TKT-999999'),
+  );
+  // TICKET_NOT_FOUND
+  await expectError('forged ticket', () =>
+    registryLot.unparkVehicle(
+      new Ticket(ticketA.vehicle, ticketA.spot, ticketA.ticketId, new Date()),
+    ),
+  ); // TICKET_FORGED
+
+  await registryLot.pay(ticketA.ticketId, PaymentMethod.CASH);
+  registryLot.unparkVehicle(ticketA.ticketId);
+  console.log(ticketA.getStatus()); // EXITED
+  await expectError('double exit', () => registryLot.unparkVehicle(ticketA));
+  // TICKET_ALREADY_EXITED
+
+  registryLot.parkVehicle(new Car('KA-03-CAR-0002'));
+  const lostBill = registryLot.reportLostTicket('KA-03-CAR-0002');
+  console.log(lostBill.ticketId, lostBill.balance); // TKT-000002 170
+  await registryLot.pay(lostBill.ticketId, PaymentMethod.CASH);
+  console.log(registryLot.unparkVehicle(lostBill.ticketId).total); // 170
+};
+
+// 🔟 Payments: declines, timeouts, partial payments, grace period, refunds
+const runPaymentDemo = async (): Promise<void> => {
+  console.log('---- Payments ----');
+
+  const payClock = new FakeClock(new Date('2024-06-10T09:00:00Z'));
+  const card = new MockPaymentGateway('CARD');
+  const upi = new MockPaymentGateway('UPI');
+  const payLot = new ParkingLot(buildFloors(), {
+    clock: payClock,
+    exitGraceMinutes: 15,
+    payments: new PaymentProcessor(
+      {
+        [PaymentMethod.CASH]: new CashDrawer(),
+        [PaymentMethod.CARD]: card,
+        [PaymentMethod.UPI]: upi,
+        [PaymentMethod.WALLET]: upi,
+      },
+      { maxAttempts: 2, timeoutMs: 20 },
+    ),
+  });
+
+  const ticket = payLot.parkVehicle(new Car('KA-04-CAR-0001'));
+  payClock.advanceMinutes(170);
+  console.log(payLot.quote(ticket).balance); // 60 (3 hours)
+
+  card.enqueue(MockOutcome.DECLINE);
+  await expectError('declined card', () =>
+    payLot.pay(ticket, PaymentMethod.CARD),
+  ); // PAYMENT_DECLINED
+
+  // Partial payment by UPI; the first attempt times out and is retried
+  upi.enqueue(MockOutcome.TIMEOUT);
+  let bill = await payLot.pay(ticket, PaymentMethod.UPI, 25);
+  console.log(bill.paid, bill.balance, upi.chargeAttempts); // 25 35 2
+
+  await expectError('exit with balance', () => payLot.unparkVehicle(ticket));
+  // PAYMENT_REQUIRED
+  bill = await payLot.pay(ticket, PaymentMethod.CARD);
+  console.log(ticket.getStatus(), bill.balance); // PAID 0
+
+  // Grace period is 15 minutes: leaving 20 minutes later costs the overstay
+  payClock.advanceMinutes(20);
+  await expectError('late exit', () => payLot.unparkVehicle(ticket));
+  // PAYMENT_REQUIRED
+  console.log(ticket.getStatus(), payLot.quote(ticket).balance); // ACTIVE 20
+
+  await payLot.pay(ticket, PaymentMethod.CASH);
+  console.log(payLot.unparkVehicle(ticket).format());
+
+  // Goodwill refund: newest payment first (20 cash, then 10 of the card)
+  bill = await payLot.refund(ticket, 30);
+  console.log(bill.paid); // 50
+
+  // Gateway never answers: every attempt times out
+  const stuck = payLot.parkVehicle(new Car('KA-04-CAR-0002'));
+  card.enqueue(MockOutcome.TIMEOUT, MockOutcome.TIMEOUT);
+  await expectError('gateway down', () =>
+    payLot.pay(stuck, PaymentMethod.CARD),
+  );
+  // PAYMENT_FAILED
+};
+
+// 1️⃣1️⃣ Gates: holds time out, concurrent gates never share a spot
+const runGateDemo = async (): Promise<void> => {
+  console.log('---- Gates ----');
+
+  const holdClock = new FakeClock(new Date('2024-06-10T09:00:00Z'));
+  const holdLot = new ParkingLot(
+    [new ParkingFloor(1, [new ParkingSpot('H1-C1', SpotType.COMPACT)])],
+    { clock: holdClock, holdTimeoutMs: 30 * 1000 },
+  );
+
+  const slowHold = holdLot.reserveSpot(new Car('KA-05-SLOW'));
+  await expectError('spot is held', () =>
+    holdLot.reserveSpot(new Car('KA-05-FAST')),
+  ); // NO_SPOT_AVAILABLE
+  holdClock.advanceMinutes(1);
+  await expectError('late confirm', () => holdLot.confirmSpot(slowHold.holdId)); // HOLD_NOT_FOUND
+  console.log(holdLot.parkVehicle(new Car('KA-05-FAST')).spot.spotId); // H1-C1
+
+  // Simulation: 4 entry gates, 30 cars, 20 spots, seeded driver delays
+  const simSpots = (floor: number): ParkingSpot[] =>
+    Array.from(
+      { length: 10 },
+      (_, i) => new ParkingSpot(`G${floor}-C${i + 1}`, SpotType.COMPACT, i),
+    );
+  const gateLot = new ParkingLot([
+    new ParkingFloor(1, simSpots(1)),
+    new ParkingFloor(2, simSpots(2)),
+  ]);
+  const random = seededRandom(42);
+  const driverDelay: GateDelay = () => loopTurns(Math.floor(random() * 5));
+
+  const entryGates = ['NORTH', 'SOUTH', 'EAST', 'WEST'].map(
+    (gateId) => new EntryGate(gateId, gateLot, { delay: driverDelay }),
+  );
+  const exitGate = new ExitGate('EXIT', gateLot, { delay: driverDelay });
+
+  // Cars arrive `spread` loop turns apart, each at the next gate in turn
+  const admitAll = (
+    plates: string[],
+    spread = 0,
+  ): Promise<PromiseSettledResult<Ticket>[]> =>
+    Promise.allSettled(
+      plates.map(async (plate, i) => {
+        await loopTurns(i * spread);
+        return entryGates[i % entryGates.length].admit(new Car(plate));
+      }),
+    );
+  const issuedTickets = (results: PromiseSettledResult<Ticket>[]): Ticket[] =>
+    results.flatMap((result) =>
+      result.status === 'fulfilled' ? [result.value] : [],
+    );
+
+  const firstWave = issuedTickets(
+    await admitAll(Array.from({ length: 30 }, (_, i) => `SIM-A${i}`)),
+  );
+  const firstSpots = new Set(firstWave.map((ticket) => ticket.spot.spotId));
+  console.log(`issued ${firstWave.length}, distinct ${firstSpots.size}`);
+  // issued 20, distinct 20
+
+  // Second wave: 10 cars leave while 10 more arrive at the same time
+  const leaving = firstWave.slice(0, 10);
+  const [, arrivals] = await Promise.all([
+    Promise.allSettled(
+      leaving.map((ticket) => exitGate.exit(ticket, PaymentMethod.CASH)),
+    ),
+    admitAll(
+      Array.from({ length: 10 }, (_, i) => `SIM-B${i}`),
+      2,
+    ),
+  ]);
+
+  const inside = [...firstWave.slice(10), ...issuedTickets(arrivals)];
+  const insideSpots = new Set(inside.map((ticket) => ticket.spot.spotId));
+  console.log(`no spot assigned twice: ${insideSpots.size === inside.length}`);
+  // no spot assigned twice: true
+
+  const audited = [...entryGates, exitGate].flatMap((gate) =>
+    gate.getAuditTrail(),
+  );
+  const countOf = (event: GateEvent): number =>
+    audited.filter((entry) => entry.event === event).length;
+  console.log(
+    `audit: ${countOf(GateEvent.TICKET_ISSUED)} issued, ` +
+      `${countOf(GateEvent.ENTRY_REJECTED)} rejected, ` +
+      `${countOf(GateEvent.EXIT_ALLOWED)} exited`,
+  );
+  // audit: 29 issued, 11 rejected, 10 exited (one arrival beat an exit)
+};
+
+// 1️⃣2️⃣ Display boards follow lot events
+const runDisplayBoardDemo = async (): Promise<void> => {
+  console.log('---- Display Boards ----');
+
+  const boardLot = new ParkingLot(buildFloors());
+  const entrance = new DisplayBoard(boardLot);
+  const floorTwo = new DisplayBoard(boardLot, 2);
+  console.log(entrance.render());
+  // [ENTRANCE] BIKE 2 | COMPACT 3 | LARGE 0 || CAR OPEN | BIKE OPEN | TRUCK FULL
+
+  const gate = new EntryGate('MAIN', boardLot, { board: entrance });
+  const bikes = [await gate.admit(new Bike('KA-06-BIKE-1'))];
+  bikes.push(await gate.admit(new Bike('KA-06-BIKE-2')));
+  console.log(floorTwo.render());
+  // [FLOOR 2] BIKE 0 | COMPACT 1 | LARGE 0 || CAR OPEN | BIKE OPEN | TRUCK FULL
+  // (a bike can still use a COMPACT spot)
+
+  await expectError('truck at gate', () =>
+    gate.admit(new Truck('KA-06-TRUCK-1')),
+  ); // NO_SPOT_AVAILABLE, without asking the lot
+
+  for (const plate of ['KA-06-CAR-1', 'KA-06-CAR-2', 'KA-06-CAR-3']) {
+    await gate.admit(new Car(plate));
+  }
+  console.log(entrance.render());
+  // [ENTRANCE] BIKE 0 | COMPACT 0 | LARGE 0 || CAR FULL | BIKE FULL | TRUCK FULL
+
+  await boardLot.pay(bikes[0], PaymentMethod.CASH);
+  boardLot.unparkVehicle(bikes[0]);
+  console.log(
+    entrance.isFull(VehicleType.BIKE),
+    entrance.isFull(VehicleType.CAR),
+  );
+  // false true
+};
+
+// 1️⃣3️⃣ Advance reservations on a fake clock (Monday)
+const runReservationDemo = async (): Promise<void> => {
+  console.log('---- Reservations ----');
+
+  const bookingClock = new FakeClock(new Date('2024-06-10T08:00:00Z'));
+  const at = (time: string): Date => new Date(`2024-06-10T${time}:00Z`);
+  const bookingLot = new ParkingLot(buildFloors(), {
+    clock: bookingClock,
+    reservationGraceMinutes: 15,
+  });
+  const entrance = new DisplayBoard(bookingLot);
+
+  const booking = bookingLot.reserve({
+    vehicleType: VehicleType.CAR,
+    start: at('10:00'),
+    end: at('12:00'),
+    spotId: 'A1-C2',
+  });
+  console.log(booking.reservationId, booking.estimatedFee); // RSV-000001 40
+
+  await expectError('overlapping booking', () =>
+    bookingLot.reserve({
+      vehicleType: VehicleType.CAR,
+      start: at('11:00'),
+      end: at('13:00'),
+      spotId: 'A1-C2',
+    }),
+  ); // RESERVATION_CONFLICT
+
+  // Before the window a walk-in may use the nearest spot...
+  const early = bookingLot.parkVehicle(new Car('KA-07-EARLY'));
+  console.log(early.spot.spotId); // A1-C2
+  await bookingLot.pay(early, PaymentMethod.CASH);
+  bookingLot.unparkVehicle(early);
+
+  // ...but once the window opens the spot is held for the booking
+  bookingClock.advanceMinutes(120); // 10:00
+  const walkIn = bookingLot.parkVehicle(new Car('KA-07-WALKIN'));
+  console.log(walkIn.spot.spotId, entrance.freeCount(SpotType.COMPACT));
+  // A1-C1 1
+
+  bookingClock.advanceMinutes(5);
+  const arrived = bookingLot.checkIn(
+    booking.reservationId,
+    new Car('KA-07-BOOKED'),
+  );
+  console.log(arrived.spot.spotId, booking.status); // A1-C2 CHECKED_IN
+
+  // Leaving early still pays for the booked window
+  bookingClock.advanceMinutes(55); // 11:00
+  console.log(bookingLot.quote(arrived).total); // 40
+
+  // No-show: the spot goes back to walk-ins after the grace period
+  const noShow = bookingLot.reserve({
+    vehicleType: VehicleType.BIKE,
+    start: at('11:30'),
+    end: at('13:00'),
+  });
+  bookingClock.advanceMinutes(30); // 11:30, window opens
+  bookingLot.runHousekeeping(); // what a scheduler tick would do
+  console.log(noShow.spot.spotId, entrance.freeCount(SpotType.BIKE)); // A1-B1 1
+  bookingClock.advanceMinutes(20); // past the 15 minute grace
+  await expectError('late arrival', () =>
+    bookingLot.checkIn(noShow.reservationId, new Bike('KA-07-BIKE')),
+  ); // INVALID_RESERVATION
+  console.log(noShow.status, entrance.freeCount(SpotType.BIKE)); // NO_SHOW 2
+
+  // Checking in before the window opens takes a free spot off the board
+  const earlyBird = bookingLot.reserve({
+    vehicleType: VehicleType.CAR,
+    start: at('14:00'),
+    end: at('15:00'),
+  });
+  console.log(entrance.freeCount(SpotType.COMPACT)); // 1
+  bookingLot.checkIn(earlyBird.reservationId, new Car('KA-07-EARLY-BIRD'));
+  console.log(
+    entrance.freeCount(SpotType.COMPACT),
+    bookingLot.availability()[0].free.COMPACT,
+  ); // 0 0 (the board agrees with the lot)
+};
+
+// 1️⃣4️⃣ EV charger and accessible spots
+const runEvAndAccessibleDemo = async (): Promise<void> => {
+  console.log('---- EV & Accessible Spots ----');
+
+  const evClock = new FakeClock(new Date('2024-06-10T09:00:00Z'));
+  const evLot = new ParkingLot(
+    [
+      new ParkingFloor(1, [
+        new ParkingSpot('E1-C1', SpotType.COMPACT, 30, { chargerKw: 22 }),
+        new ParkingSpot('E1-C2', SpotType.COMPACT, 5, { accessible: true }),
+        new ParkingSpot('E1-C3', SpotType.COMPACT, 10),
+        new ParkingSpot('E1-C4', SpotType.COMPACT, 40, { chargerKw: 7 }),
+      ]),
+    ],
+    { clock: evClock, chargingRatePerKwh: 15 },
+  );
+
+  const plain = evLot.parkVehicle(new Car('KA-09-PLAIN'));
+  const ev = evLot.parkVehicle(
+    new Car('KA-09-EV', { electric: true, wantsCharging: true }),
+  );
+  const permit = evLot.parkVehicle(
+    new Car('KA-09-PERMIT', { accessibilityPermit: true }),
+  );
+  console.log(plain.spot.spotId, ev.spot.spotId, permit.spot.spotId);
+  // E1-C3 E1-C1 E1-C2 (the accessible spot is nearest, but kept)
+
+  // Only the 7 kW charger is left; a car that isn't charging can't use it
+  console.log(evLot.availability()[0].free.COMPACT); // 1
+  await expectError('car without charging', () =>
+    evLot.parkVehicle(new Car('KA-09-PLAIN-2')),
+  ); // NO_SPOT_AVAILABLE
+
+  evClock.advanceMinutes(90);
+  await expectError('impossible reading', () =>
+    evLot.recordChargingEnergy(ev, 50),
+  ); // INVALID_METER_READING (22 kW × 1.5 h = 33 kWh at most)
+  evLot.recordChargingEnergy(ev, 20);
+
+  await evLot.pay(ev, PaymentMethod.CASH);
+  console.log(evLot.unparkVehicle(ev).format());
+  // Hourly x2: 40.00, EV charging 20 kWh x1: 300.00, TOTAL: 340.00
+};
+
+// 1️⃣5️⃣ Admin: layout from a config file, maintenance, add/remove spots
+const runAdminDemo = async (): Promise<void> => {
+  console.log('---- Admin ----');
+
+  const layoutFile = path.join(os.tmpdir(), `lot-layout-${process.pid}.json`);
+  const writeLayout = (config: unknown): void =>
+    writeFileSync(layoutFile, JSON.stringify(config));
+
+  try {
+    writeLayout({
+      floors: [
+        { floor: 1, spots: [{ id: 'L1-C1', type: 'COMPACT', distance: 5 }] },
+        {
+          floor: 1,
+          spots: [
+            { id: 'L1-C1', type: 'COMPACT' },
+            { id: 'L2-X1', type: 'HUGE', chargerKw: -3 },
+          ],
+        },
+      ],
+    });
+    try {
+      loadLayoutFile(layoutFile);
+    } catch (err) {
+      for (const issue of (err as LayoutConfigError).issues) {
+        console.log(`${issue.path}: ${issue.problem}`);
+      }
+      // floors[1].floor: floor 1 is listed twice
+      // floors[1].spots[0].id: spot L1-C1 is listed twice
+      // floors[1].spots[1].type: must be one of BIKE, COMPACT, LARGE
+      // floors[1].spots[1].chargerKw: must be a number > 0
+    }
+
+    writeLayout({
+      floors: [
+        {
+          floor: 1,
+          spots: [
+            { id: 'L1-C1', type: 'COMPACT', distance: 5 },
+            { id: 'L1-C2', type: 'COMPACT', distance: 8 },
+          ],
+        },
+        { floor: 2, spots: [{ id: 'L2-C1', type: 'COMPACT', distance: 3 }] },
+      ],
+    });
+    const adminLot = new ParkingLot(loadLayoutFile(layoutFile));
+    const board = new DisplayBoard(adminLot);
+    console.log(board.freeCount(SpotType.COMPACT)); // 3
+
+    const parked = adminLot.parkVehicle(new Car('KA-10-CAR-1'));
+    console.log(parked.spot.spotId); // L1-C1
+    await expectError('remove occupied spot', () =>
+      adminLot.removeSpot('L1-C1'),
+    ); // SPOT_OCCUPIED
+
+    // Floor 1 closes while the car is inside; it can still leave
+    adminLot.setFloorMaintenance(1, true);
+    console.log(board.freeCount(SpotType.COMPACT)); // 1 (only L2-C1)
+    console.log(adminLot.parkVehicle(new Car('KA-10-CAR-2')).spot.spotId);
+    // L2-C1
+    await adminLot.pay(parked, PaymentMethod.CASH);
+    adminLot.unparkVehicle(parked);
+    console.log(board.render());
+    // [ENTRANCE] BIKE 0 | COMPACT 0 | LARGE 0 || CAR FULL | BIKE FULL | TRUCK FULL
+
+    adminLot.addFloor(
+      new ParkingFloor(3, [new ParkingSpot('L3-L1', SpotType.LARGE, 1)]),
+    );
+    adminLot.removeSpot('L1-C1');
+    adminLot.setSpotMaintenance('L1-C2', true);
+    adminLot.setFloorMaintenance(1, false); // L1-C2 stays closed
+    console.log(board.render());
+    // [ENTRANCE] BIKE 0 | COMPACT 0 | LARGE 1 || CAR OPEN | BIKE FULL | TRUCK OPEN
+    adminLot.setSpotMaintenance('L1-C2', false);
+    console.log(
+      board.freeCount(SpotType.COMPACT, 1),
+      adminLot.availability()[0].free.COMPACT,
+    ); // 1 1 (board and lot agree)
+  } finally {
+    unlinkSync(layoutFile);
+  }
+};
+
+// Child process of the persistence demo: journals floors of 20,000 spots
+// (about 1 MB a record) until it is killed, reporting each one written
+const runJournalWriter = async (directory: string): Promise<void> => {
+  const journal = new LotJournal(directory);
+  ParkingLot.open(journal, () => []); // snapshot of an empty lot
+  for (let floor = 1; process.connected; floor++) {
+    const spots = Array.from({ length: 20000 }, (_, i) => ({
+      id: `W${floor}-${i}`,
+      type: SpotType.COMPACT,
+      distance: i,
+    }));
+    journal.append({
+      type: JournalEntryType.FLOOR_ADDED,
+      floor: { floor, spots },
+    });
+    process.send?.(floor);
+    await loopTurns(1); // let the message out
+  }
+};
+
+// Fork a journal writer and SIGKILL it while a record is half on disk.
+// Resolves with how many records it reported before it died.
+const crashJournalWriter = (directory: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const journalFile = path.join(directory, 'journal.jsonl');
+    const writer = fork(__filename, ['journal-writer', directory], {
+      execArgv: __filename.endsWith('.ts')
+        ? ['-r', 'ts-node/register/transpile-only']
+        : [],
+    });
+    let written = 0;
+    const lastByte = Buffer.alloc(1);
+    const kill = (): void => {
+      clearInterval(watch);
+      clearTimeout(deadline);
+      writer.kill('SIGKILL');
+    };
+    // Wait for two whole records, then for one that has no newline yet
+    const watch = setInterval(() => {
+      const size = existsSync(journalFile) ? statSync(journalFile).size : 0;
+      if (written < 2 || size === 0) return;
+      const fd = openSync(journalFile, 'r');
+      readSync(fd, lastByte, 0, 1, size - 1);
+      closeSync(fd);
+      if (lastByte[0] !== 0x0a) kill();
+    }, 1);
+    const deadline = setTimeout(kill, 60 * 1000);
+
+    writer.on('message', (floor) => (written = Number(floor)));
+    writer.on('error', (err) => {
+      kill();
+      reject(err);
+    });
+    writer.on('exit', () => {
+      kill();
+      resolve(written);
+    });
+  });
+
+// 1️⃣6️⃣ Persistence: journal, snapshot, crash and recovery
+const runPersistenceDemo = async (): Promise<void> => {
+  console.log('---- Persistence ----');
+
+  const directory = mkdtempSync(path.join(os.tmpdir(), 'lot-journal-'));
+  const clock = new FakeClock(new Date('2024-01-10T09:00:00'));
+  const layout = (): ParkingFloor[] => [
+    new ParkingFloor(1, [
+      new ParkingSpot('J1-C1', SpotType.COMPACT, 5),
+      new ParkingSpot('J1-C2', SpotType.COMPACT, 10),
+      new ParkingSpot('J1-E1', SpotType.COMPACT, 15, { chargerKw: 11 }),
+    ]),
+  ];
+
+  try {
+    const journal = new LotJournal(directory, { snapshotEvery: 5 });
+    const lot = ParkingLot.open(journal, layout, { clock });
+    const car = lot.parkVehicle(new Car('KA-20-CAR-1'));
+    const ev = lot.parkVehicle(
+      new Car('KA-20-EV-1', { electric: true, wantsCharging: true }),
+    );
+    clock.advanceMinutes(90);
+    lot.recordChargingEnergy(ev, 12);
+    await lot.pay(car, PaymentMethod.CASH); // 5th entry: snapshot
+    lot.unparkVehicle(car);
+    lot.setSpotMaintenance('J1-C1', true);
+    lot.parkVehicle(new Car('KA-20-CAR-2'));
+
+    // The process dies halfway through writing that last record
+    const journalFile = path.join(directory, 'journal.jsonl');
+    truncateSync(journalFile, statSync(journalFile).size - 20);
+
+    const reopened = new LotJournal(directory, { snapshotEvery: 5 });
+    const saved = reopened.load();
+    console.log(
+      `snapshot #${saved.snapshot?.seq}, replaying ${saved.entries.length}, ` +
+        `torn tail: ${saved.tornTail}`,
+    ); // snapshot #5, replaying 2, torn tail: true
+
+    const recovered = ParkingLot.open(reopened, layout, { clock });
+    console.log(recovered.findTicketByVehicle('KA-20-CAR-2')); // null
+    console.log(recovered.quote(ev.ticketId).total); // 40 parking + 180 energy
+    await expectError('exit again', () =>
+      recovered.unparkVehicle(car.ticketId),
+    ); // TICKET_ALREADY_EXITED
+    console.log(new DisplayBoard(recovered).freeCount(SpotType.COMPACT)); // 1
+    console.log(recovered.parkVehicle(new Car('KA-20-CAR-2')).spot.spotId);
+    // J1-C2 (J1-C1 is still in maintenance)
+
+    // A real crash: another process is killed halfway through a record
+    const crashDirectory = mkdtempSync(path.join(directory, 'crash-'));
+    const reported = await crashJournalWriter(crashDirectory);
+    const afterCrash = new LotJournal(crashDirectory).load();
+    const crashedLot = ParkingLot.open(
+      new LotJournal(crashDirectory),
+      () => [],
+      { clock },
+    );
+    console.log(
+      afterCrash.tornTail, // the half-written record is there...
+      crashedLot.availability().length === afterCrash.entries.length, // ...and skipped
+      afterCrash.entries.length >= reported, // every reported floor is back
+    ); // true true true
+
+    // Passes and the entries used on them come back too
+    const membersDirectory = mkdtempSync(path.join(directory, 'members-'));
+    const memberships = new MembershipRegistry();
+    const memberLot = ParkingLot.open(
+      new LotJournal(membersDirectory),
+      layout,
+      {
+        clock,
+        memberships,
+      },
+    );
+    const bundle = memberships.issue({
+      vehicleNumber: 'KA-20-BDL',
+      vehicleType: VehicleType.CAR,
+      type: PassType.ENTRY_BUNDLE,
+      entriesPerMonth: 1,
+      validFrom: new Date('2024-01-01T00:00:00Z'),
+      validUntil: new Date('2024-02-01T00:00:00Z'),
+    });
+    const member = memberLot.parkVehicle(new Car('KA-20-BDL'));
+
+    const restoredMemberships = new MembershipRegistry(); // after a restart
+    const memberLotAgain = ParkingLot.open(
+      new LotJournal(membersDirectory),
+      layout,
+      { clock, memberships: restoredMemberships },
+    );
+    clock.advanceMinutes(60);
+    console.log(
+      memberLotAgain.quote(member.ticketId).balance,
+      restoredMemberships.findById(bundle.passId)?.entriesUsed(clock.now()),
+    ); // 0 1 (still discounted, and the bundle's one entry is used)
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+};
+
+// 1️⃣7️⃣ Analytics: a morning of traffic, reported as CSV and JSON
+const runAnalyticsDemo = async (): Promise<void> => {
+  console.log('---- Analytics ----');
+
+  const clock = new FakeClock(new Date('2024-01-10T08:00:00'));
+  const lot = new ParkingLot(
+    [
+      new ParkingFloor(1, [
+        new ParkingSpot('R1-C1', SpotType.COMPACT, 5),
+        new ParkingSpot('R1-C2', SpotType.COMPACT, 10),
+        new ParkingSpot('R1-B1', SpotType.BIKE, 5),
+      ]),
+      new ParkingFloor(2, [new ParkingSpot('R2-C1', SpotType.COMPACT, 5)]),
+    ],
+    { clock },
+  );
+  const leave = async (ticket: Ticket): Promise<void> => {
+    await lot.pay(ticket, PaymentMethod.CASH);
+    lot.unparkVehicle(ticket);
+  };
+
+  const car1 = lot.parkVehicle(new Car('KA-30-CAR-1')); // 08:00, R1-C1
+  const bike = lot.parkVehicle(new Bike('KA-30-BIKE-1')); // 08:00, R1-B1
+  clock.advanceMinutes(30);
+  const car2 = lot.parkVehicle(new Car('KA-30-CAR-2')); // 08:30, R1-C2
+  clock.advanceMinutes(60);
+  const car3 = lot.parkVehicle(new Car('KA-30-CAR-3')); // 09:30, R2-C1
+  await leave(bike); // 90 min
+  clock.advanceMinutes(30);
+  await leave(car1); // 120 min
+  clock.advanceMinutes(60);
+  await leave(car2); // 150 min, 11:00
+  // car3 is still inside: it counts toward occupancy only
+
+  const report = lot.report(
+    new Date('2024-01-10T08:00:00'),
+    new Date('2024-01-10T12:00:00'),
+  );
+  console.log(report.toCsv(ReportSection.PEAK_HOURS));
+  // hour,occupied / 9,3 / 8,2.5 / 10,2
+  console.log(report.toCsv(ReportSection.DWELL));
+  // vehicleType,sessions,averageMinutes / CAR,2,135 / BIKE,1,90
+  console.log(report.toCsv(ReportSection.REVENUE));
+  // day,floorNumber,sessions,revenue / 2024-01-10,1,3,120
+  console.log(
+    report.turnover
+      .map((row) => `${row.floorNumber}/${row.spotType} ${row.perSpotPerDay}`)
+      .join(', '),
+  ); // 1/BIKE 6, 1/COMPACT 6, 2/COMPACT 0 (4 hours scaled to a day)
+  console.log(
+    report.occupancy
+      .filter(
+        (row) => row.floorNumber === 1 && row.spotType === SpotType.COMPACT,
+      )
+      .map((row) => `${row.bucket.slice(11)} ${row.rate}`)
+      .join(', '),
+  ); // 08:00 0.75, 09:00 1, 10:00 0.5, 11:00 0
+  console.log(JSON.parse(report.toJson()).occupancy.length); // 4 buckets x 3
+  await expectError('empty range', () =>
+    lot.report(
+      new Date('2024-01-10T12:00:00'),
+      new Date('2024-01-10T08:00:00'),
+    ),
+  ); // INVALID_REPORT_RANGE
+
+  // A refund after exit comes off the day's revenue
+  await lot.refund(bike);
+  const afterRefund = lot.report(
+    new Date('2024-01-10T08:00:00'),
+    new Date('2024-01-10T12:00:00'),
+  );
+  console.log(afterRefund.toCsv(ReportSection.REVENUE));
+  // day,floorNumber,sessions,revenue / 2024-01-10,1,3,100 (bike's 20 back)
+};
+
+// 1️⃣8️⃣ HTTP API and CLI on a random local port
+const runHttpApiDemo = async (): Promise<void> => {
+  console.log('---- HTTP API ----');
+
+  const server = new ParkingLotServer(new ParkingLot(buildFloors()));
+  const baseUrl = `http://127.0.0.1:${await server.listen(0)}`;
+  const cli = async (...args: string[]): Promise<void> => {
+    console.log(await runCli(args, baseUrl).catch(formatCliError));
+  };
+
+  try {
+    await cli('park', 'car', 'KA-40-CAR-1');
+    // Parked KA-40-CAR-1 in A1-C2 | ticket TKT-000001
+    await cli('park', 'truck', 'KA-40-TRUCK-1');
+    // Error NO_SPOT_AVAILABLE (HTTP 409): No available parking spot ...
+    await cli('status', 'TKT-000001'); // ... | ACTIVE | owes 20.00
+    await cli('status', 'TKT-404'); // Error TICKET_NOT_FOUND (HTTP 404) ...
+
+    // Admin calls are plain JSON; the CLI only covers day-to-day commands
+    const client = new ParkingLotClient(baseUrl);
+    await client.request('PUT', '/admin/floors/2/maintenance', { on: true });
+    await client
+      .request('POST', '/admin/floors/1/spots', { id: 'A1-L1', type: 'HUGE' })
+      .catch((err: HttpError) => console.log(err.status, err.code));
+    // 422 INVALID_LAYOUT
+    await client
+      .request('POST', '/vehicles', { type: 'CAR' })
+      .catch((err: HttpError) => console.log(err.status, err.message));
+    // 400 vehicleNumber must be a non-empty string
+    await client
+      .request('POST', '/vehicles', { vehicleNumber: 'X'.repeat(70_000) })
+      .catch((err: HttpError) => console.log(err.status, err.code));
+    // 413 BODY_TOO_LARGE (the server drains the body, then answers)
+    await cli('floors');
+    // Floor 1: BIKE 1 | COMPACT 1 | LARGE 0
+    // Floor 2: BIKE 0 | COMPACT 0 | LARGE 0
+
+    await cli('exit', 'TKT-000001'); // pays cash, prints the receipt
+    await cli('exit', 'TKT-000001'); // Error TICKET_ALREADY_EXITED (HTTP 409)
+  } finally {
+    await server.close();
+  }
+
+  // Something in front of the API answering with HTML instead of JSON
+  const proxy = http.createServer((_, res) => {
+    res.writeHead(502, { 'Content-Type': 'text/html' });
+    res.end('<html>Bad Gateway</html>');
+  });
+  await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+  const { port } = proxy.address() as { port: number };
+  try {
+    await runCli(['floors'], `http://127.0.0.1:${port}`).catch((err) =>
+      console.log(formatCliError(err)),
+    );
+    // Error INVALID_RESPONSE (HTTP 502): Expected JSON from GET /availability (HTTP 502)
+  } finally {
+    await new Promise((resolve) => proxy.close(resolve));
+  }
+};
+
+// 1️⃣9️⃣ Memberships: passes, reserved floors and expiry notices
+const runMembershipDemo = async (): Promise<void> => {
+  console.log('---- Memberships ----');
+
+  const clock = new FakeClock(new Date('2024-01-08T08:00:00Z')); // Monday
+  const notices: PassNotice[] = [];
+  const memberships = new MembershipRegistry({
+    notifier: { notify: (notice) => notices.push(notice) },
+  });
+  const lot = new ParkingLot(
+    [
+      new ParkingFloor(1, [new ParkingSpot('M1-C1', SpotType.COMPACT, 5)]),
+      new ParkingFloor(2, [
+        new ParkingSpot('M2-C1', SpotType.COMPACT, 5),
+        new ParkingSpot('M2-C2', SpotType.COMPACT, 10),
+        new ParkingSpot('M2-B1', SpotType.BIKE, 15),
+      ]),
+    ],
+    { clock, memberships },
+  );
+  const january = {
+    validFrom: new Date('2024-01-01T00:00:00Z'),
+    validUntil: new Date('2024-02-01T00:00:00Z'),
+  };
+  memberships.issue({
+    vehicleNumber: 'KA-50-UNL',
+    vehicleType: VehicleType.CAR,
+    type: PassType.MONTHLY_UNLIMITED,
+    reservedFloors: [2],
+    ...january,
+  });
+  memberships.issue({
+    vehicleNumber: 'KA-50-WKD',
+    vehicleType: VehicleType.CAR,
+    type: PassType.WEEKDAY_ONLY,
+    discountPercent: 50,
+    ...january,
+  });
+  const bundle = memberships.issue({
+    vehicleNumber: 'KA-50-BDL',
+    vehicleType: VehicleType.CAR,
+    type: PassType.ENTRY_BUNDLE,
+    entriesPerMonth: 2,
+    ...january,
+  });
+  await expectError('overlapping pass', () =>
+    memberships.issue({
+      vehicleNumber: 'KA-50-BDL',
+      vehicleType: VehicleType.CAR,
+      type: PassType.MONTHLY_UNLIMITED,
+      ...january,
+    }),
+  ); // INVALID_PASS
+
+  const unlimited = lot.parkVehicle(new Car('KA-50-UNL'));
+  const weekday = lot.parkVehicle(new Car('KA-50-WKD'));
+  console.log(unlimited.spot.spotId, weekday.spot.spotId); // M2-C1 M1-C1
+  clock.advanceMinutes(120);
+  console.log(lot.unparkVehicle(unlimited).format()); // no payment needed
+  // Hourly x2: 40.00, MONTHLY_UNLIMITED pass -100% x1: -40.00, TOTAL: 0.00
+  console.log(lot.quote(weekday).balance); // 20 (half of 40)
+
+  // While KA-50-UNL is away, floor 2 keeps one spot back for it
+  const walkIn = lot.parkVehicle(new Car('KA-50-WALK-1'));
+  await expectError('second walk-in', () =>
+    lot.parkVehicle(new Car('KA-50-WALK-2')),
+  ); // NO_SPOT_AVAILABLE: floor 2's free compact is held, its bike spot
+  const bike = lot.parkVehicle(new Bike('KA-50-BIKE'));
+  console.log(bike.spot.spotId); // M2-B1, a bike doesn't need the held spot
+  await lot.pay(bike, PaymentMethod.CASH);
+  lot.unparkVehicle(bike);
+  const back = lot.parkVehicle(new Car('KA-50-UNL'));
+  console.log(walkIn.spot.spotId, back.spot.spotId); // M2-C1 M2-C2
+  await lot.pay(walkIn, PaymentMethod.CASH);
+  lot.unparkVehicle(walkIn);
+  lot.unparkVehicle(back);
+  await lot.pay(weekday, PaymentMethod.CASH);
+  lot.unparkVehicle(weekday);
+
+  const bundleFees: number[] = [];
+  for (let visit = 0; visit < 3; visit++) {
+    const ticket = lot.parkVehicle(new Car('KA-50-BDL'));
+    clock.advanceMinutes(60);
+    bundleFees.push(lot.quote(ticket).balance);
+    if (bundleFees[visit] > 0) await lot.pay(ticket, PaymentMethod.CASH);
+    lot.unparkVehicle(ticket);
+  }
+  console.log(bundleFees, bundle.entriesUsed(clock.now())); // [ 0, 0, 20 ] 2
+
+  clock.advanceMinutes(5 * 24 * 60); // Saturday: weekday pass doesn't apply
+  const saturday = lot.parkVehicle(new Car('KA-50-WKD'));
+  clock.advanceMinutes(60);
+  console.log(lot.quote(saturday).balance); // 20
+
+  // Days and months are the lot's, like its prices: in a UTC+5:30 lot,
+  // Friday 20:00 UTC is already Saturday
+  const ist = new MembershipRegistry({ utcOffsetHours: 5.5 });
+  const istPass = ist.issue({
+    vehicleNumber: 'KA-50-IST',
+    vehicleType: VehicleType.CAR,
+    type: PassType.WEEKDAY_ONLY,
+    ...january,
+  });
+  const fridayEveningUtc = new Date('2024-01-12T20:00:00Z');
+  console.log(istPass.coversEntry(fridayEveningUtc)); // false
+  console.log(istPass.monthOf(new Date('2024-01-31T20:00:00Z'))); // 2024-02
+
+  // Housekeeping (any call into the lot) sends notices as they fall due
+  clock.advanceMinutes(13 * 24 * 60); // 2024-01-26
+  lot.runHousekeeping();
+  clock.advanceMinutes(7 * 24 * 60); // 2024-02-02
+  lot.runHousekeeping();
+  for (const notice of notices) {
+    console.log(notice.type, notice.vehicleNumber, notice.daysLeft);
+  }
+  // EXPIRING_SOON x3 with 6 days left, then EXPIRED x3 with 0
+};
+
+/**
+ * No arguments: run the demos. `serve` starts the API; anything else
+ * is a CLI command sent to a running server.
+ */
+const main = async (args: string[]): Promise<void> => {
+  const { positional, flags } = parseFlags(args);
+  const port = Number(flags.port ?? 3000);
+
+  if (positional.length === 0) {
+    await runDemos();
+    return;
+  }
+  if (positional[0] === 'journal-writer') {
+    await runJournalWriter(positional[1]); // the persistence demo's child
+    return;
+  }
+  try {
+    if (positional[0] === 'serve') {
+      // A bad layout file or a busy port is reported like a CLI error
+      const floors = flags.layout
+        ? loadLayoutFile(flags.layout)
+        : buildFloors();
+      const server = new ParkingLotServer(new ParkingLot(floors));
+      const boundPort = await server.listen(port);
+      console.log(`Parking API on http://127.0.0.1:${boundPort}`);
+      process.once('SIGINT', () => void server.close());
+    } else {
+      console.log(await runCli(positional, `http://127.0.0.1:${port}`));
+    }
+  } catch (err) {
+    console.error(formatCliError(err));
+    process.exitCode = 1;
+  }
+};
 
-// 6️⃣ Unpark a vehicle
-console.log('---- Unparking Vehicle ----');
+// Async demos run one after another so their output doesn't interleave
+const runDemos = async (): Promise<void> => {
+  await runBasicDemo();
+  await runPricingDemo();
+  runAllocationDemo();
+  await runTicketRegistryDemo();
+  await runPaymentDemo();
+  await runGateDemo();
+  await runDisplayBoardDemo();
+  await runReservationDemo();
+  await runEvAndAccessibleDemo();
+  await runAdminDemo();
+  await runPersistenceDemo();
+  await runAnalyticsDemo();
+  await runHttpApiDemo();
+  await runMembershipDemo();
+};
 
-parkingLot.unparkVehicle(carTicket);
-console.log(`Car with ticket ${carTicket.ticketId} has exited`);
+if (require.main === module) void main(process.argv.slice(2));
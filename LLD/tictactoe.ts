@@ -12,12 +12,19 @@
  * 3. Players take turns
  * 4. Detect win or draw
  * 5. Stop game after win/draw
+ * 6. Computer players: perfect on 3x3 (minimax + alpha-beta),
+ *    depth-limited search on bigger boards, seeded difficulty levels
+ * 7. The game asks the current player for its move, so humans and
+ *    computers can be swapped freely
+ * 8. K-in-a-row wins (e.g. Gomoku, 5 in a row on 15x15), checked only
+ *    along the lines through the last move
  *
  * DESIGN PRINCIPLES USED:
  * - Abstraction
  * - Encapsulation
  * - Single Responsibility Principle (SRP)
  * - Composition
+ * - Inheritance + Polymorphism (ComputerPlayer is a Player)
  ***********************************************************************/
 
 /***********************************************************************
@@ -49,14 +56,38 @@ enum GameStatus {
  *
  * SPEAK:
  * "Player represents a participant in the game.
- *  It holds identity and symbol only."
+ *  It holds identity and symbol, and answers 'what is your move?'.
+ *  A human answers through an input (keyboard, UI, network);
+ *  a computer player overrides chooseMove and thinks for itself."
  ***********************************************************************/
 
+interface Move {
+  row: number;
+  col: number;
+}
+
+// What a player gets to look at when asked for a move
+interface MoveContext {
+  board: Board;
+  winningStrategy: WinningStrategy;
+  opponent: GameSymbol;
+}
+
+type MoveInput = (context: MoveContext) => Move | Promise<Move>;
+
 class Player {
   constructor(
     public readonly name: string,
     public readonly symbol: GameSymbol,
+    private readonly input: MoveInput | null = null, // none: use makeMove
   ) {}
+
+  chooseMove(context: MoveContext): Move | Promise<Move> {
+    if (!this.input) {
+      throw new Error(`${this.name} has no move input; call makeMove`);
+    }
+    return this.input(context);
+  }
 }
 
 /***********************************************************************
@@ -73,6 +104,7 @@ class Player {
 
 class Board {
   private grid: GameSymbol[][];
+  private filled = 0; // pieces on the board, so isFull() is O(1)
 
   constructor(private readonly size: number = 3) {
     this.grid = Array.from({ length: size }, () =>
@@ -80,11 +112,16 @@ class Board {
     );
   }
 
+  getSize(): number {
+    return this.size;
+  }
+
   // Place a symbol at given position
   placeGameSymbol(row: number, col: number, symbol: GameSymbol): boolean {
     if (!this.isValidMove(row, col)) return false;
 
     this.grid[row][col] = symbol;
+    this.filled++;
     return true;
   }
 
@@ -99,11 +136,43 @@ class Board {
     );
   }
 
+  // Take a symbol back off the board (used by search to undo a move)
+  clearCell(row: number, col: number): void {
+    if (this.grid[row][col] === GameSymbol.EMPTY) return;
+    this.grid[row][col] = GameSymbol.EMPTY;
+    this.filled--;
+  }
+
+  filledCount(): number {
+    return this.filled;
+  }
+
+  emptyCells(): Move[] {
+    const cells: Move[] = [];
+    this.grid.forEach((line, row) =>
+      line.forEach((cell, col) => {
+        if (cell === GameSymbol.EMPTY) cells.push({ row, col });
+      }),
+    );
+    return cells;
+  }
+
+  // Scratch copy, so a computer player can think without touching the game
+  clone(): Board {
+    const copy = new Board(this.size);
+    copy.grid = this.grid.map((row) => [...row]);
+    copy.filled = this.filled;
+    return copy;
+  }
+
+  // Identifies a position, e.g. for a transposition table
+  key(): string {
+    return this.grid.map((row) => row.join('')).join('/');
+  }
+
   // Check if board is completely filled
   isFull(): boolean {
-    return this.grid.every((row) =>
-      row.every((cell) => cell !== GameSymbol.EMPTY),
-    );
+    return this.filled === this.size * this.size;
   }
 
   // Expose read-only grid for evaluation
@@ -129,13 +198,33 @@ class Board {
  *
  * SPEAK:
  * "Winning logic is abstracted so that
- *  rules can evolve without touching game logic."
+ *  rules can evolve without touching game logic.
+ *  A new win can only go through the move just played, so the
+ *  strategy is told that move and doesn't need to rescan the board."
  ***********************************************************************/
 
 interface WinningStrategy {
-  checkWinner(board: Board, symbol: GameSymbol): boolean;
+  // Read-only: did placing `symbol` at `lastMove` win? Safe to repeat
+  checkWinner(board: Board, symbol: GameSymbol, lastMove: Move): boolean;
+
+  // How many in a line win on this board (computer players plan by it)
+  winLength(board: Board): number;
+
+  // Called once right after a move is placed, and before a move is
+  // taken back off the board (search undo), so strategies that keep
+  // state can stay in sync
+  recordMove?(board: Board, symbol: GameSymbol, move: Move): void;
+  undoMove?(board: Board, symbol: GameSymbol, move: Move): void;
 }
 
+// Row, column, diagonal, anti-diagonal
+const DIRECTIONS: [number, number][] = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
 /***********************************************************************
  * STEP 5: STANDARD WINNING STRATEGY (3x3)
  *
@@ -145,6 +234,10 @@ interface WinningStrategy {
  ***********************************************************************/
 
 class StandardWinningStrategy implements WinningStrategy {
+  winLength(board: Board): number {
+    return board.getSize();
+  }
+
   checkWinner(board: Board, symbol: GameSymbol): boolean {
     const grid = board.getGrid();
     const size = grid.length;
@@ -177,7 +270,446 @@ class StandardWinningStrategy implements WinningStrategy {
 }
 
 /***********************************************************************
- * STEP 6: GAME (Orchestrator)
+ * STEP 6: K-IN-A-ROW WINNING STRATEGY
+ *
+ * OOP:
+ * - Polymorphism
+ * - Strategy Pattern
+ *
+ * SPEAK:
+ * "For K in a row I walk out from the last move in both directions
+ *  along each of the 4 lines and count matching symbols.
+ *  That's O(K) per move, whatever the board size, so 15x15 Gomoku
+ *  is as cheap to check as 3x3."
+ ***********************************************************************/
+
+class KInARowWinningStrategy implements WinningStrategy {
+  constructor(private readonly k: number = 5) {}
+
+  winLength(): number {
+    return this.k;
+  }
+
+  checkWinner(board: Board, symbol: GameSymbol, lastMove: Move): boolean {
+    const grid = board.getGrid();
+    return DIRECTIONS.some(
+      ([dr, dc]) =>
+        1 +
+          this.countFrom(grid, lastMove, dr, dc, symbol) +
+          this.countFrom(grid, lastMove, -dr, -dc, symbol) >=
+        this.k,
+    );
+  }
+
+  // Matching symbols next to `from` in one direction (not counting it)
+  private countFrom(
+    grid: GameSymbol[][],
+    from: Move,
+    dr: number,
+    dc: number,
+    symbol: GameSymbol,
+  ): number {
+    let count = 0;
+    let row = from.row + dr;
+    let col = from.col + dc;
+    while (count < this.k - 1 && grid[row]?.[col] === symbol) {
+      count++;
+      row += dr;
+      col += dc;
+    }
+    return count;
+  }
+}
+
+/***********************************************************************
+ * STEP 7: LINE COUNTER WINNING STRATEGY (Full-line wins in O(1))
+ *
+ * OOP:
+ * - Polymorphism
+ * - Strategy Pattern
+ *
+ * SPEAK:
+ * "When a win needs a full row, column or diagonal, I keep a counter
+ *  per line per symbol. A move bumps at most 4 counters, and the
+ *  player wins when one of them reaches N. O(1) per move."
+ *
+ * NOTE:
+ * - Counters are kept per Board, and built from the grid the first
+ *   time a board is seen (so clones work)
+ * - recordMove bumps the counters; checkWinner only reads them
+ * - undoMove takes the counters back down, for the computer's search
+ ***********************************************************************/
+
+interface LineCounts {
+  rows: number[];
+  cols: number[];
+  diagonal: number;
+  antiDiagonal: number;
+}
+
+class LineCounterWinningStrategy implements WinningStrategy {
+  private readonly counts = new WeakMap<Board, Map<GameSymbol, LineCounts>>();
+
+  winLength(board: Board): number {
+    return board.getSize();
+  }
+
+  checkWinner(board: Board, symbol: GameSymbol, lastMove: Move): boolean {
+    const size = board.getSize();
+    const lines = this.countsFor(board, null).get(symbol);
+    if (!lines) return false; // EMPTY is never a winner
+
+    const { row, col } = lastMove;
+    return (
+      lines.rows[row] === size ||
+      lines.cols[col] === size ||
+      (row === col && lines.diagonal === size) ||
+      (row + col === size - 1 && lines.antiDiagonal === size)
+    );
+  }
+
+  recordMove(board: Board, symbol: GameSymbol, move: Move): void {
+    const lines = this.countsFor(board, move).get(symbol);
+    if (lines) this.count(lines, board.getSize(), move, 1);
+  }
+
+  undoMove(board: Board, symbol: GameSymbol, move: Move): void {
+    const lines = this.countsFor(board, null).get(symbol);
+    if (lines) this.count(lines, board.getSize(), move, -1);
+  }
+
+  private count(
+    lines: LineCounts,
+    size: number,
+    { row, col }: Move,
+    delta: number,
+  ): void {
+    lines.rows[row] += delta;
+    lines.cols[col] += delta;
+    if (row === col) lines.diagonal += delta;
+    if (row + col === size - 1) lines.antiDiagonal += delta;
+  }
+
+  // `pending` is on the grid already but not counted yet
+  private countsFor(
+    board: Board,
+    pending: Move | null,
+  ): Map<GameSymbol, LineCounts> {
+    const existing = this.counts.get(board);
+    if (existing) return existing;
+
+    const size = board.getSize();
+    const bySymbol = new Map<GameSymbol, LineCounts>();
+    for (const symbol of [GameSymbol.X, GameSymbol.O]) {
+      bySymbol.set(symbol, {
+        rows: new Array(size).fill(0),
+        cols: new Array(size).fill(0),
+        diagonal: 0,
+        antiDiagonal: 0,
+      });
+    }
+    board.getGrid().forEach((line, row) =>
+      line.forEach((cell, col) => {
+        const lines = bySymbol.get(cell);
+        const isPending = pending?.row === row && pending?.col === col;
+        if (lines && !isPending) this.count(lines, size, { row, col }, 1);
+      }),
+    );
+    this.counts.set(board, bySymbol);
+    return bySymbol;
+  }
+}
+
+/***********************************************************************
+ * STEP 8: COMPUTER PLAYER (Minimax + Alpha-Beta)
+ *
+ * OOP:
+ * - Inheritance (a ComputerPlayer is a Player)
+ * - Composition (it plays by the game's own WinningStrategy)
+ *
+ * SPEAK:
+ * "Minimax assumes both sides play their best. I write it as negamax:
+ *  my score is minus my opponent's best score. Alpha-beta stops
+ *  looking at a move as soon as it is shown to be worse than one
+ *  already found. Different move orders reach the same position, so
+ *  a transposition table remembers each position's score.
+ *  3x3 is small enough to search to the end, so play is perfect.
+ *  Bigger boards are searched a few moves deep, and the position is
+ *  scored by counting lines each side could still complete."
+ *
+ * DIFFICULTY:
+ * - Each level has a mistake rate: the chance of playing a random
+ *   move instead of the best one
+ * - The randomness is seeded, so a game can be replayed exactly
+ *
+ * NOTE:
+ * - The transposition table is rebuilt for every move on purpose: its
+ *   scores depend on the game's rules and win length, and a player can
+ *   be reused across games. It also keeps memory bounded on big boards.
+ ***********************************************************************/
+
+enum Difficulty {
+  EASY = 'EASY',
+  MEDIUM = 'MEDIUM',
+  HARD = 'HARD',
+  PERFECT = 'PERFECT',
+}
+
+const MISTAKE_RATE: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 0.4,
+  [Difficulty.MEDIUM]: 0.15,
+  [Difficulty.HARD]: 0.05,
+  [Difficulty.PERFECT]: 0,
+};
+
+interface ComputerPlayerOptions {
+  difficulty?: Difficulty; // defaults to PERFECT
+  seed?: number; // same seed, same mistakes
+  maxDepth?: number; // plies searched on boards above 3x3, defaults to 4
+}
+
+// mulberry32: tiny, and the same sequence for the same seed
+class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+// A cached score is exact, or only a bound when the search was cut off
+enum Bound {
+  EXACT = 'EXACT',
+  LOWER = 'LOWER',
+  UPPER = 'UPPER',
+}
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+}
+
+interface SearchState {
+  rules: WinningStrategy;
+  table: Map<string, TableEntry>;
+  winLength: number;
+}
+
+// Above any heuristic score; a quicker win scores higher
+const WIN_SCORE = 1_000_000;
+
+class ComputerPlayer extends Player {
+  private readonly difficulty: Difficulty;
+  private readonly random: SeededRandom;
+  private readonly maxDepth: number;
+
+  constructor(
+    name: string,
+    symbol: GameSymbol,
+    options: ComputerPlayerOptions = {},
+  ) {
+    super(name, symbol);
+    this.difficulty = options.difficulty ?? Difficulty.PERFECT;
+    this.random = new SeededRandom(options.seed ?? 1);
+    this.maxDepth = options.maxDepth ?? 4;
+  }
+
+  chooseMove({ board, winningStrategy, opponent }: MoveContext): Move {
+    const scratch = board.clone();
+    const moves = this.candidateMoves(scratch);
+    if (moves.length === 0) throw new Error('No moves left');
+
+    // 3x3 is searched to the end; bigger boards to a fixed depth
+    const depth =
+      scratch.getSize() <= 3
+        ? scratch.getSize() ** 2 - scratch.filledCount()
+        : this.maxDepth;
+    const state: SearchState = {
+      rules: winningStrategy,
+      table: new Map(),
+      winLength: winningStrategy.winLength(scratch),
+    };
+
+    let best = moves[0];
+    let bestScore = -Infinity;
+    for (const move of moves) {
+      const score = this.scoreMove(
+        scratch,
+        move,
+        this.symbol,
+        opponent,
+        depth,
+        bestScore,
+        Infinity,
+        state,
+      );
+      if (score > bestScore) {
+        best = move;
+        bestScore = score;
+      }
+    }
+
+    const others = moves.filter((move) => move !== best);
+    const blunder = this.random.next() < MISTAKE_RATE[this.difficulty];
+    return blunder && others.length > 0 ? this.random.pick(others) : best;
+  }
+
+  // Score of `me` playing `move`, from my point of view
+  private scoreMove(
+    board: Board,
+    move: Move,
+    me: GameSymbol,
+    them: GameSymbol,
+    depth: number,
+    alpha: number,
+    beta: number,
+    state: SearchState,
+  ): number {
+    board.placeGameSymbol(move.row, move.col, me);
+    state.rules.recordMove?.(board, me, move);
+
+    let score: number;
+    if (state.rules.checkWinner(board, me, move)) {
+      // Fewer pieces on the board means a quicker win
+      score = WIN_SCORE - board.filledCount();
+    } else if (board.isFull()) {
+      score = 0;
+    } else if (depth <= 1) {
+      score = this.evaluate(board, me, them, state.winLength);
+    } else {
+      score = -this.negamax(board, them, me, depth - 1, -beta, -alpha, state);
+    }
+
+    state.rules.undoMove?.(board, me, move);
+    board.clearCell(move.row, move.col);
+    return score;
+  }
+
+  // Best score `toMove` can reach, looking `depth` moves ahead
+  private negamax(
+    board: Board,
+    toMove: GameSymbol,
+    other: GameSymbol,
+    depth: number,
+    alpha: number,
+    beta: number,
+    state: SearchState,
+  ): number {
+    const key = `${board.key()}|${toMove}`;
+    const cached = state.table.get(key);
+    if (cached && cached.depth >= depth) {
+      if (cached.bound === Bound.EXACT) return cached.score;
+      if (cached.bound === Bound.LOWER) alpha = Math.max(alpha, cached.score);
+      if (cached.bound === Bound.UPPER) beta = Math.min(beta, cached.score);
+      if (alpha >= beta) return cached.score;
+    }
+
+    const alphaAtStart = alpha;
+    let best = -Infinity;
+    for (const move of this.candidateMoves(board)) {
+      const score = this.scoreMove(
+        board,
+        move,
+        toMove,
+        other,
+        depth,
+        alpha,
+        beta,
+        state,
+      );
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break; // the opponent won't allow this line
+    }
+
+    const bound =
+      best <= alphaAtStart
+        ? Bound.UPPER
+        : best >= beta
+          ? Bound.LOWER
+          : Bound.EXACT;
+    state.table.set(key, { depth, score: best, bound });
+    return best;
+  }
+
+  /**
+   * Centre-first order makes alpha-beta cut off sooner. On big boards
+   * only cells next to a piece are worth considering.
+   */
+  private candidateMoves(board: Board): Move[] {
+    const size = board.getSize();
+    const grid = board.getGrid();
+    const centre = (size - 1) / 2;
+    const nearPiece = (move: Move): boolean => {
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const cell = grid[move.row + dr]?.[move.col + dc];
+          if (cell !== undefined && cell !== GameSymbol.EMPTY) return true;
+        }
+      }
+      return false;
+    };
+
+    let moves = board.emptyCells();
+    if (size > 3 && board.filledCount() > 0) moves = moves.filter(nearPiece);
+    return moves.sort(
+      (a, b) =>
+        Math.abs(a.row - centre) +
+        Math.abs(a.col - centre) -
+        (Math.abs(b.row - centre) + Math.abs(b.col - centre)),
+    );
+  }
+
+  // Every window of winLength cells that only one side has pieces in
+  // is a line that side could still complete; longer is worth more
+  private evaluate(
+    board: Board,
+    me: GameSymbol,
+    them: GameSymbol,
+    winLength: number,
+  ): number {
+    const grid = board.getGrid();
+    const size = grid.length;
+    let score = 0;
+
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        for (const [dr, dc] of DIRECTIONS) {
+          const endRow = row + dr * (winLength - 1);
+          const endCol = col + dc * (winLength - 1);
+          if (endRow >= size || endCol < 0 || endCol >= size) continue;
+
+          let mine = 0;
+          let theirs = 0;
+          for (let i = 0; i < winLength; i++) {
+            const cell = grid[row + dr * i][col + dc * i];
+            if (cell === me) mine++;
+            else if (cell === them) theirs++;
+          }
+          if (mine > 0 && theirs === 0) score += 10 ** mine;
+          if (theirs > 0 && mine === 0) score -= 10 ** theirs;
+        }
+      }
+    }
+    return score;
+  }
+}
+
+/***********************************************************************
+ * STEP 9: GAME (Orchestrator)
  *
  * OOP:
  * - Composition (Game has Board, Players, Strategy)
@@ -191,13 +723,48 @@ class StandardWinningStrategy implements WinningStrategy {
 class TicTacToeGame {
   private currentPlayerIndex = 0;
   private status: GameStatus = GameStatus.IN_PROGRESS;
+  private winner: Player | null = null;
 
   constructor(
     private readonly players: Player[],
     private readonly board: Board,
     private readonly winningStrategy: WinningStrategy,
+    private readonly verbose: boolean = true, // print the board each move
   ) {}
 
+  getStatus(): GameStatus {
+    return this.status;
+  }
+
+  getWinner(): Player | null {
+    return this.winner;
+  }
+
+  // Ask whoever's turn it is for a move, human or computer alike
+  async playTurn(): Promise<void> {
+    if (this.status !== GameStatus.IN_PROGRESS) {
+      throw new Error('Game has already ended');
+    }
+
+    const currentPlayer = this.players[this.currentPlayerIndex];
+    const move = await currentPlayer.chooseMove({
+      board: this.board,
+      winningStrategy: this.winningStrategy,
+      opponent:
+        this.players[(this.currentPlayerIndex + 1) % this.players.length]
+          .symbol,
+    });
+    this.makeMove(move.row, move.col);
+  }
+
+  // Play turns until someone wins or the board fills up
+  async play(): Promise<GameStatus> {
+    while (this.status === GameStatus.IN_PROGRESS) {
+      await this.playTurn();
+    }
+    return this.status;
+  }
+
   // Make a move for current player
   makeMove(row: number, col: number): void {
     if (this.status !== GameStatus.IN_PROGRESS) {
@@ -212,19 +779,24 @@ class TicTacToeGame {
       throw new Error('Invalid move');
     }
 
-    this.board.printBoard();
+    if (this.verbose) this.board.printBoard();
 
     // Check win
-    if (this.winningStrategy.checkWinner(this.board, currentPlayer.symbol)) {
+    const move = { row, col };
+    this.winningStrategy.recordMove?.(this.board, currentPlayer.symbol, move);
+    if (
+      this.winningStrategy.checkWinner(this.board, currentPlayer.symbol, move)
+    ) {
       this.status = GameStatus.WON;
-      console.log(`Winner: ${currentPlayer.name}`);
+      this.winner = currentPlayer;
+      if (this.verbose) console.log(`Winner: ${currentPlayer.name}`);
       return;
     }
 
     // Check draw
     if (this.board.isFull()) {
       this.status = GameStatus.DRAW;
-      console.log('Game ended in a draw');
+      if (this.verbose) console.log('Game ended in a draw');
       return;
     }
 
@@ -235,7 +807,7 @@ class TicTacToeGame {
 }
 
 /***********************************************************************
- * STEP 7: DEMO / DRIVER CODE
+ * STEP 10: DEMO / DRIVER CODE
  *
  * SPEAK:
  * "This shows how all components work together."
@@ -258,3 +830,156 @@ game.makeMove(1, 1); // Bob
 game.makeMove(0, 1); // Alice
 game.makeMove(2, 2); // Bob
 game.makeMove(0, 2); // Alice wins
+
+// A human whose input always picks the first free cell
+const firstFreeCell: MoveInput = ({ board }) => board.emptyCells()[0];
+
+const runComputerPlayerDemo = async (): Promise<void> => {
+  console.log('---- Computer Players ----');
+
+  // Perfect play on both sides always ends in a draw
+  const perfectGame = new TicTacToeGame(
+    [
+      new ComputerPlayer('CPU X', GameSymbol.X),
+      new ComputerPlayer('CPU O', GameSymbol.O),
+    ],
+    new Board(3),
+    new StandardWinningStrategy(),
+    false,
+  );
+  console.log(await perfectGame.play()); // DRAW
+
+  // Swap a human in: same game loop, different player
+  const humanGame = new TicTacToeGame(
+    [
+      new Player('Carol', GameSymbol.X, firstFreeCell),
+      new ComputerPlayer('CPU', GameSymbol.O),
+    ],
+    new Board(3),
+    new StandardWinningStrategy(),
+  );
+  await humanGame.play(); // prints each board, then Winner: CPU
+
+  // Seeded mistakes: the same seed replays the same game
+  for (const difficulty of [Difficulty.EASY, Difficulty.HARD]) {
+    const results = { won: 0, drawn: 0, lost: 0 };
+    for (let seed = 1; seed <= 20; seed++) {
+      const weaker = new ComputerPlayer('weaker', GameSymbol.X, {
+        difficulty,
+        seed,
+      });
+      const game = new TicTacToeGame(
+        [weaker, new ComputerPlayer('perfect', GameSymbol.O)],
+        new Board(3),
+        new StandardWinningStrategy(),
+        false,
+      );
+      await game.play();
+      if (!game.getWinner()) results.drawn++;
+      else if (game.getWinner() === weaker) results.won++;
+      else results.lost++;
+    }
+    console.log(`${difficulty} vs PERFECT, 20 seeds:`, results);
+    // EASY: { won: 0, drawn: 11, lost: 9 }, HARD: { won: 0, drawn: 20, lost: 0 }
+  }
+
+  // 4x4 is too big to search to the end: depth-limited with a heuristic
+  const bigGame = new TicTacToeGame(
+    [
+      new ComputerPlayer('CPU X', GameSymbol.X, { maxDepth: 4 }),
+      new ComputerPlayer('CPU O', GameSymbol.O, { maxDepth: 4 }),
+    ],
+    new Board(4),
+    new StandardWinningStrategy(),
+    false,
+  );
+  console.log(await bigGame.play()); // DRAW
+};
+
+// Plays a fixed list of moves, one per turn
+const scripted = (moves: Move[]): MoveInput => {
+  let next = 0;
+  return () => moves[next++];
+};
+
+const runKInARowDemo = async (): Promise<void> => {
+  console.log('---- K in a Row ----');
+
+  // Gomoku: 5 in a row on 15x15; only the last move's lines are checked
+  const gomoku = new TicTacToeGame(
+    [
+      new Player(
+        'Black',
+        GameSymbol.X,
+        scripted([
+          { row: 7, col: 7 },
+          { row: 8, col: 8 },
+          { row: 6, col: 6 },
+          { row: 9, col: 9 },
+          { row: 5, col: 5 },
+        ]),
+      ),
+      new Player(
+        'White',
+        GameSymbol.O,
+        scripted([
+          { row: 7, col: 8 },
+          { row: 7, col: 9 },
+          { row: 7, col: 10 },
+          { row: 7, col: 11 },
+        ]),
+      ),
+    ],
+    new Board(15),
+    new KInARowWinningStrategy(5),
+    false,
+  );
+  await gomoku.play();
+  console.log(gomoku.getWinner()?.name); // Black
+
+  // 3 in a row on 5x5; the players read the 3 from the strategy
+  const small = new TicTacToeGame(
+    [
+      new ComputerPlayer('CPU X', GameSymbol.X, { maxDepth: 3 }),
+      new ComputerPlayer('CPU O', GameSymbol.O, { maxDepth: 3 }),
+    ],
+    new Board(5),
+    new KInARowWinningStrategy(3),
+    false,
+  );
+  console.log(await small.play(), small.getWinner()?.name); // WON CPU X
+
+  // Full-line wins with O(1) counters: the search's undo keeps them right
+  const counted = new TicTacToeGame(
+    [
+      new ComputerPlayer('CPU X', GameSymbol.X),
+      new ComputerPlayer('CPU O', GameSymbol.O),
+    ],
+    new Board(3),
+    new LineCounterWinningStrategy(),
+    false,
+  );
+  console.log(await counted.play()); // DRAW, same as the rescanning strategy
+
+  // checkWinner only reads the counters, so asking twice is harmless
+  const rules = new LineCounterWinningStrategy();
+  const row = new Board(3);
+  for (const col of [0, 1]) {
+    row.placeGameSymbol(0, col, GameSymbol.X);
+    rules.recordMove(row, GameSymbol.X, { row: 0, col });
+  }
+  console.log(
+    rules.checkWinner(row, GameSymbol.X, { row: 0, col: 1 }),
+    rules.checkWinner(row, GameSymbol.X, { row: 0, col: 1 }),
+  ); // false false
+};
+
+const runDemos = async (): Promise<void> => {
+  await runComputerPlayerDemo();
+  await runKInARowDemo();
+};
+
+runDemos().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});